@@ -2,7 +2,7 @@ import type {Role} from '@prisma/client'
 import type {LoaderFunction} from 'remix'
 import {redirect} from 'remix'
 import {
-  getMagicLink,
+  createMagicLink,
   updateUser,
   getUserByEmail,
   prisma,
@@ -37,9 +37,11 @@ export const loader: LoaderFunction = async ({request}) => {
 
     await prisma.user.create({data: {email, team, firstName, role}})
   }
-  return redirect(
-    getMagicLink({emailAddress: email, domainUrl: getDomainUrl(request)}),
-  )
+  const {link} = await createMagicLink({
+    emailAddress: email,
+    domainUrl: getDomainUrl(request),
+  })
+  return redirect(link)
 }
 
 export default () => null
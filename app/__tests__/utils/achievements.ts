@@ -0,0 +1,119 @@
+import {
+  getAchievementInfo,
+  getCurrentStreaks,
+  getMilestoneKeys,
+  getNextStats,
+  getStatsFromReads,
+  getStreaks,
+  getTopReaderIds,
+} from '~/utils/achievements'
+
+const now = new Date(2021, 9, 20, 12)
+const daysAgo = (days: number) => new Date(2021, 9, 20 - days, 9)
+
+test('day streaks count consecutive days with a read', () => {
+  const dates = [daysAgo(0), daysAgo(1), daysAgo(1), daysAgo(2), daysAgo(6)]
+  expect(getStreaks(dates, 'day', now)).toEqual({current: 3, longest: 3})
+})
+
+test(`a streak isn't over until a whole day goes by without a read`, () => {
+  const dates = [daysAgo(1), daysAgo(2)]
+  expect(getStreaks(dates, 'day', now)).toEqual({current: 2, longest: 2})
+  expect(getStreaks([daysAgo(2), daysAgo(3)], 'day', now)).toEqual({
+    current: 0,
+    longest: 2,
+  })
+})
+
+test('week streaks count consecutive weeks with a read', () => {
+  const dates = [daysAgo(0), daysAgo(7), daysAgo(14), daysAgo(28)]
+  expect(getStreaks(dates, 'week', now)).toEqual({current: 3, longest: 3})
+  expect(getStreaks([], 'week', now)).toEqual({current: 0, longest: 0})
+})
+
+test('achievement keys describe what they were earned for', () => {
+  expect(getAchievementInfo('posts:50', 'BLUE')?.title).toBe('50 posts')
+  expect(getAchievementInfo('category:react', 'BLUE')?.description).toBe(
+    'Read every post about react.',
+  )
+  expect(getAchievementInfo('team:trailblazer', 'RED')?.description).toBe(
+    'The first on the red team to read a post.',
+  )
+  expect(getAchievementInfo('nonsense', 'RED')).toBe(null)
+})
+
+test('reading stats can be worked out from all the reads', () => {
+  const reads = [daysAgo(0), daysAgo(1), daysAgo(1), daysAgo(6)].map(
+    (createdAt, index) => ({postSlug: `post-${index % 3}`, createdAt}),
+  )
+  expect(getStatsFromReads(reads)).toEqual({
+    lastReadAt: daysAgo(0),
+    postCount: 3,
+    dayStreak: 2,
+    weekStreak: 2,
+    longestDayStreak: 2,
+    longestWeekStreak: 2,
+  })
+  expect(getStatsFromReads([])).toBe(null)
+})
+
+test('counting a read one at a time gets the same stats as all at once', () => {
+  const dates = [daysAgo(20), daysAgo(9), daysAgo(8), daysAgo(2), daysAgo(1)]
+  const reads = dates.map((createdAt, index) => ({
+    postSlug: `post-${index % 4}`,
+    createdAt,
+  }))
+  let stats = getStatsFromReads(reads.slice(0, 1))
+  for (const [index, read] of reads.entries()) {
+    if (!stats || index === 0) continue
+    stats = getNextStats(stats, {
+      readAt: read.createdAt,
+      isNewPost: index < 4,
+    })
+  }
+  expect(stats).toEqual(getStatsFromReads(reads))
+})
+
+test('milestones are reached with the longest streaks', () => {
+  const stats = {
+    lastReadAt: now,
+    postCount: 12,
+    dayStreak: 1,
+    weekStreak: 4,
+    longestDayStreak: 7,
+    longestWeekStreak: 4,
+  }
+  expect(getMilestoneKeys(stats)).toEqual([
+    'day-streak:3',
+    'day-streak:7',
+    'week-streak:4',
+    'posts:10',
+  ])
+  expect(getCurrentStreaks(stats, now).dayStreak).toEqual({
+    current: 1,
+    longest: 7,
+  })
+  expect(
+    getCurrentStreaks({...stats, lastReadAt: daysAgo(2)}, now).dayStreak,
+  ).toEqual({current: 0, longest: 7})
+})
+
+test(`reading first in the week doesn't make you the top reader`, () => {
+  // in the order they were read
+  const weekReads = [
+    {userId: 'early-bird', team: 'RED' as const},
+    {userId: 'bookworm', team: 'RED' as const},
+    {userId: 'bookworm', team: 'RED' as const},
+    {userId: 'loner', team: 'BLUE' as const},
+  ]
+  expect(getTopReaderIds(weekReads)).toEqual(['bookworm', 'loner'])
+  expect(getTopReaderIds(weekReads.slice(0, 1))).toEqual(['early-bird'])
+})
+
+test('nobody is the top reader when teammates tie', () => {
+  const weekReads = [
+    {userId: 'a', team: 'YELLOW' as const},
+    {userId: 'b', team: 'YELLOW' as const},
+  ]
+  expect(getTopReaderIds(weekReads)).toEqual([])
+})
@@ -0,0 +1,201 @@
+import type {AudioPipeline, AudioSegment} from '~/utils/audio-pipeline'
+import {
+  defaultAudioPreset,
+  getAudioPreset,
+  getFfmpegArgs,
+  getOutputContentType,
+  getRecordingEditPipeline,
+  editRecording,
+} from '~/utils/audio-pipeline'
+
+function getFilterGraph(args: Array<string>) {
+  const index = args.indexOf('-filter_complex')
+  return index === -1 ? null : (args[index + 1] as string).split(';')
+}
+
+test('the default preset stitches the episode like it always has', () => {
+  expect(getFfmpegArgs(defaultAudioPreset.pipeline)).toEqual([
+    '-i',
+    'intro.mp3',
+    '-i',
+    'call.mp3',
+    '-i',
+    'interstitial.mp3',
+    '-i',
+    'response.mp3',
+    '-i',
+    'outro.mp3',
+    '-filter_complex',
+    [
+      '[1]silenceremove=1:0:-50dB,silenceremove=stop_periods=-1:stop_duration=1:stop_threshold=-50dB,loudnorm=I=-16:LRA=11:TP=0[call]',
+      '[3]silenceremove=1:0:-50dB,silenceremove=stop_periods=-1:stop_duration=1:stop_threshold=-50dB,loudnorm=I=-16:LRA=11:TP=0[response]',
+      '[0][call]acrossfade=d=1:c2=nofade[a1]',
+      '[a1][2]acrossfade=d=1:c1=nofade[a2]',
+      '[a2][response]acrossfade=d=1:c2=nofade[a3]',
+      '[a3][4]acrossfade=d=1:c1=nofade',
+    ].join(';'),
+    'output.mp3',
+  ])
+  expect(getOutputContentType(defaultAudioPreset.pipeline)).toBe('audio/mpeg')
+})
+
+test('unknown presets fall back to the default preset', () => {
+  expect(getAudioPreset('nope')).toBe(defaultAudioPreset)
+  expect(getAudioPreset(null)).toBe(defaultAudioPreset)
+})
+
+test('the noisy preset filters out rumble before anything else', () => {
+  const graph = getFilterGraph(getFfmpegArgs(getAudioPreset('noisy').pipeline))
+  expect(graph?.[0]).toMatch(/^\[1\]highpass=f=100,silenceremove=1:0:-50dB,/)
+  expect(graph?.[1]).toMatch(/^\[3\]highpass=f=100,silenceremove=1:0:-50dB,/)
+})
+
+test('the output format and bitrate come from the pipeline', () => {
+  const {pipeline} = getAudioPreset('high-quality')
+  expect(getFfmpegArgs(pipeline).slice(-3)).toEqual([
+    '-b:a',
+    '192k',
+    'output.m4a',
+  ])
+  expect(getOutputContentType(pipeline)).toBe('audio/mp4')
+})
+
+test('trimming a recording only trims that recording', () => {
+  const pipeline = editRecording(defaultAudioPreset.pipeline, 'response', {
+    start: 1.5,
+    end: 30,
+  })
+  const graph = getFilterGraph(getFfmpegArgs(pipeline))
+  expect(graph?.[0]).toMatch(/^\[1\]silenceremove/)
+  expect(graph?.[1]).toMatch(
+    /^\[3\]atrim=start=1\.5:end=30,asetpts=PTS-STARTPTS,silenceremove/,
+  )
+
+  const openEnded = editRecording(defaultAudioPreset.pipeline, 'call', {
+    start: 2,
+    end: null,
+  })
+  expect(getFilterGraph(getFfmpegArgs(openEnded))?.[0]).toMatch(
+    /^\[1\]atrim=start=2,asetpts=PTS-STARTPTS,silenceremove/,
+  )
+})
+
+test('an empty trim leaves the pipeline alone', () => {
+  const {pipeline} = defaultAudioPreset
+  expect(editRecording(pipeline, 'call', {start: 0, end: null})).toBe(pipeline)
+})
+
+test('segments without a crossfade are concatenated', () => {
+  const pipeline: AudioPipeline = {
+    segments: [
+      {
+        name: 'call',
+        source: {type: 'recording', recording: 'call'},
+        filters: [{type: 'volume', gain: 3}],
+      },
+      {
+        name: 'outro',
+        source: {type: 'asset', path: 'call-kent/outro.mp3'},
+        filters: [],
+      },
+    ],
+    loudness: {integrated: -16, range: 11, truePeak: 0},
+    output: {format: 'mp3', bitrate: '128k'},
+  }
+  expect(getFfmpegArgs(pipeline)).toEqual([
+    '-i',
+    'call.mp3',
+    '-i',
+    'outro.mp3',
+    '-filter_complex',
+    '[0]volume=3dB[call];[call][1]concat=n=2:v=0:a=1',
+    '-b:a',
+    '128k',
+    'output.mp3',
+  ])
+})
+
+test('a single segment is filtered straight to the output', () => {
+  const pipeline: AudioPipeline = {
+    segments: [
+      {
+        name: 'response',
+        source: {type: 'recording', recording: 'response'},
+        filters: [{type: 'normalize'}],
+      },
+    ],
+    loudness: {integrated: -14, range: 7, truePeak: -1},
+    output: {format: 'mp3', bitrate: null},
+  }
+  expect(getFilterGraph(getFfmpegArgs(pipeline))).toEqual([
+    '[0]loudnorm=I=-14:LRA=7:TP=-1',
+  ])
+})
+
+test('segment names must be unique', () => {
+  const intro = defaultAudioPreset.pipeline.segments[0] as AudioSegment
+  expect(() =>
+    getFfmpegArgs({
+      ...defaultAudioPreset.pipeline,
+      segments: [intro, intro],
+    }),
+  ).toThrow(/unique/)
+})
+
+test('unknown filters are an error', () => {
+  const pipeline = {
+    segments: [
+      {
+        name: 'response',
+        source: {type: 'recording', recording: 'response'},
+        filters: [{type: 'reverb'}],
+      },
+    ],
+    loudness: {integrated: -14, range: 7, truePeak: -1},
+    output: {format: 'mp3', bitrate: null},
+  } as unknown as AudioPipeline
+  expect(() => getFfmpegArgs(pipeline)).toThrow(/reverb/)
+})
+
+test('cuts in the middle of a recording select the parts that are left', () => {
+  const pipeline = editRecording(defaultAudioPreset.pipeline, 'call', {
+    start: 1,
+    end: null,
+    cuts: [
+      {start: 8, end: 9.5},
+      {start: 3, end: 4},
+    ],
+  })
+  expect(getFilterGraph(getFfmpegArgs(pipeline))?.[0]).toMatch(
+    /^\[1\]aselect='between\(t,1,3\)\+between\(t,4,8\)\+gte\(t,9\.5\)',asetpts=N\/SR\/TB,silenceremove/,
+  )
+})
+
+test('cuts at the edges of a recording are just a trim', () => {
+  const pipeline = editRecording(defaultAudioPreset.pipeline, 'call', {
+    start: 0,
+    end: 20,
+    cuts: [
+      {start: 0, end: 2},
+      {start: 18, end: 25},
+    ],
+  })
+  expect(getFilterGraph(getFfmpegArgs(pipeline))?.[0]).toMatch(
+    /^\[1\]atrim=start=2:end=18,asetpts=PTS-STARTPTS,silenceremove/,
+  )
+})
+
+test('a caller edit is applied to the recording on its own', () => {
+  expect(
+    getFfmpegArgs(getRecordingEditPipeline({start: 0.5, end: 12, cuts: []})),
+  ).toEqual([
+    '-i',
+    'call.mp3',
+    '-filter_complex',
+    '[0]atrim=start=0.5:end=12,asetpts=PTS-STARTPTS',
+    'output.mp3',
+  ])
+  expect(() =>
+    getRecordingEditPipeline({start: 0, end: 5, cuts: [{start: 0, end: 6}]}),
+  ).toThrow(/whole recording/)
+})
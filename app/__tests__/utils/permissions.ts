@@ -0,0 +1,21 @@
+import {hasPermission} from '~/utils/permissions'
+
+test('moderators can triage calls but not publish or delete them', () => {
+  const moderator = {role: 'MODERATOR'} as const
+  expect(hasPermission(moderator, 'triageCalls')).toBe(true)
+  expect(hasPermission(moderator, 'publishCalls')).toBe(false)
+  expect(hasPermission(moderator, 'deleteCalls')).toBe(false)
+  expect(hasPermission(moderator, 'manageUsers')).toBe(false)
+})
+
+test('editors can only purge the cache', () => {
+  const editor = {role: 'EDITOR'} as const
+  expect(hasPermission(editor, 'purgeCache')).toBe(true)
+  expect(hasPermission(editor, 'triageCalls')).toBe(false)
+})
+
+test('admins can do everything and nobody else can do anything', () => {
+  expect(hasPermission({role: 'ADMIN'}, 'manageUsers')).toBe(true)
+  expect(hasPermission({role: 'MEMBER'}, 'triageCalls')).toBe(false)
+  expect(hasPermission(null, 'triageCalls')).toBe(false)
+})
@@ -0,0 +1,55 @@
+import {getDeviceDescription, isBot} from '~/utils/user-agent'
+
+test('describes common browsers and operating systems', () => {
+  expect(
+    getDeviceDescription(
+      'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/94.0.4606.71 Safari/537.36',
+    ),
+  ).toBe('Chrome on macOS')
+  expect(
+    getDeviceDescription(
+      'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/94.0.4606.71 Safari/537.36 Edg/94.0.992.38',
+    ),
+  ).toBe('Edge on Windows')
+  expect(
+    getDeviceDescription(
+      'Mozilla/5.0 (X11; Ubuntu; Linux x86_64; rv:92.0) Gecko/20100101 Firefox/92.0',
+    ),
+  ).toBe('Firefox on Linux')
+  expect(
+    getDeviceDescription(
+      'Mozilla/5.0 (iPhone; CPU iPhone OS 15_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/15.0 Mobile/15E148 Safari/604.1',
+    ),
+  ).toBe('Safari on iOS')
+  expect(
+    getDeviceDescription(
+      'Mozilla/5.0 (Linux; Android 11; Pixel 5) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/94.0.4606.71 Mobile Safari/537.36',
+    ),
+  ).toBe('Chrome on Android')
+})
+
+test('falls back to whatever it can make out', () => {
+  expect(getDeviceDescription(null)).toBe('Unknown device')
+  expect(getDeviceDescription('curl/7.64.1')).toBe('Unknown device')
+  expect(getDeviceDescription('Mozilla/5.0 (Windows NT 10.0)')).toBe('Windows')
+})
+
+test('tells bots from browsers', () => {
+  expect(
+    isBot(
+      'Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)',
+    ),
+  ).toBe(true)
+  expect(
+    isBot(
+      'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) HeadlessChrome/94.0.4606.71 Safari/537.36',
+    ),
+  ).toBe(true)
+  expect(isBot('curl/7.64.1')).toBe(true)
+  expect(isBot(null)).toBe(true)
+  expect(
+    isBot(
+      'Mozilla/5.0 (X11; Ubuntu; Linux x86_64; rv:92.0) Gecko/20100101 Firefox/92.0',
+    ),
+  ).toBe(false)
+})
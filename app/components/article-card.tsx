@@ -8,9 +8,12 @@ import {getImageBuilder, getImgProps} from '~/images'
 import {H3} from './typography'
 import {ClipboardCopyButton} from './clipboard-copy-button'
 import {MissingSomething} from './kifs'
+import {BookmarkButton} from './bookmark-button'
 
 function ArticleCard({
   readTime,
+  readingProgress,
+  isBookmarked,
   slug,
   frontmatter: {
     date = formatDate(new Date(), 'yyyy-MM-ii'),
@@ -19,7 +22,12 @@ function ArticleCard({
     bannerCloudinaryId,
     bannerCredit,
   },
-}: MdxListItem) {
+}: MdxListItem & {
+  // how much of the post (0 to 100) the reader has gotten through
+  readingProgress?: number
+  // only given when they're logged in and can bookmark posts
+  isBookmarked?: boolean
+}) {
   const requestInfo = useRequestInfo()
   const permalink = `${requestInfo.origin}/blog/${slug}`
 
@@ -66,12 +74,34 @@ function ArticleCard({
         <H3 as="div" className="mt-4">
           {title}
         </H3>
+        {readingProgress ? (
+          <div
+            className="mt-4 h-1 bg-gray-100 dark:bg-gray-800 rounded-full overflow-hidden"
+            role="progressbar"
+            aria-label="Reading progress"
+            aria-valuenow={readingProgress}
+            aria-valuemin={0}
+            aria-valuemax={100}
+          >
+            <div
+              className="h-full bg-team-current"
+              style={{width: `${readingProgress}%`}}
+            />
+          </div>
+        ) : null}
       </Link>
 
       <ClipboardCopyButton
         value={permalink}
         className="absolute left-6 top-6"
       />
+      {isBookmarked === undefined ? null : (
+        <BookmarkButton
+          slug={slug}
+          isBookmarked={isBookmarked}
+          className="absolute right-6 top-6"
+        />
+      )}
     </div>
   )
 }
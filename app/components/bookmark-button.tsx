@@ -0,0 +1,55 @@
+import * as React from 'react'
+import clsx from 'clsx'
+import {BookIcon} from './icons/book-icon'
+
+function BookmarkButton({
+  slug,
+  isBookmarked,
+  className,
+}: {
+  slug: string
+  isBookmarked: boolean
+  className?: string
+}) {
+  // we show the change right away and go back if saving it fails
+  const [bookmarked, setBookmarked] = React.useState(isBookmarked)
+  React.useEffect(() => setBookmarked(isBookmarked), [isBookmarked])
+
+  function toggle() {
+    const newBookmarked = !bookmarked
+    setBookmarked(newBookmarked)
+    const searchParams = new URLSearchParams([
+      ['_data', 'routes/_action/bookmark'],
+    ])
+    fetch(`/_action/bookmark?${searchParams}`, {
+      method: 'POST',
+      body: JSON.stringify({articleSlug: slug, bookmarked: newBookmarked}),
+    }).then(
+      response => {
+        if (!response.ok) setBookmarked(!newBookmarked)
+      },
+      () => setBookmarked(!newBookmarked),
+    )
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={toggle}
+      aria-pressed={bookmarked}
+      title={bookmarked ? 'Remove from your reading list' : 'Save for later'}
+      className={clsx(
+        'p-3 whitespace-nowrap text-lg font-medium rounded-lg focus:outline-none shadow hover:shadow-md transition focus:ring-2 hover:ring-2 ring-white',
+        bookmarked ? 'bg-team-current text-white' : 'bg-white text-black',
+        className,
+      )}
+    >
+      <BookIcon />
+      <span className="sr-only">
+        {bookmarked ? 'Remove from your reading list' : 'Save for later'}
+      </span>
+    </button>
+  )
+}
+
+export {BookmarkButton}
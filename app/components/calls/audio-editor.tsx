@@ -0,0 +1,165 @@
+import * as React from 'react'
+import type {AudioEdit} from '~/utils/call-kent'
+import {
+  getEditedDuration,
+  getKeptRanges,
+  isAudioEdited,
+} from '~/utils/call-kent'
+import {Button} from '../button'
+import {Paragraph} from '../typography'
+import type {AudioSelection} from './waveform'
+import {AudioWaveform} from './waveform'
+
+const formatSeconds = (seconds: number) => `${seconds.toFixed(1)}s`
+
+/**
+ * Makes the <audio> skip over the parts of the recording that are edited out
+ * so what you hear is what gets submitted (the server applies the same edit).
+ */
+function useEditedPlayback(
+  playbackRef: React.MutableRefObject<HTMLAudioElement | null>,
+  edit: AudioEdit,
+) {
+  React.useEffect(() => {
+    const playback = playbackRef.current
+    if (!playback || !isAudioEdited(edit)) return
+    const ranges = getKeptRanges(edit)
+
+    function skipEditedParts() {
+      if (!playback) return
+      const time = playback.currentTime
+      const range = ranges.find(({end}) => end === null || time < end)
+      if (!range) {
+        // we're past the end of the edit
+        playback.pause()
+        playback.currentTime = ranges[0]?.start ?? 0
+      } else if (time < range.start) {
+        playback.currentTime = range.start
+      }
+    }
+
+    playback.addEventListener('play', skipEditedParts)
+    playback.addEventListener('timeupdate', skipEditedParts)
+    return () => {
+      playback.removeEventListener('play', skipEditedParts)
+      playback.removeEventListener('timeupdate', skipEditedParts)
+    }
+  }, [playbackRef, edit])
+}
+
+function AudioEditor({
+  audioURL,
+  duration,
+  edit,
+  playbackRef,
+  onTrim,
+  onCut,
+  onReset,
+}: {
+  audioURL: string
+  duration: number | null
+  edit: AudioEdit
+  playbackRef: React.MutableRefObject<HTMLAudioElement | null>
+  onTrim: (selection: AudioSelection) => void
+  onCut: (selection: AudioSelection) => void
+  onReset: () => void
+}) {
+  const [selection, setSelection] = React.useState<AudioSelection | null>(null)
+  useEditedPlayback(playbackRef, edit)
+
+  function playSelection() {
+    const playback = playbackRef.current
+    if (!playback || !selection) return
+    playback.currentTime = selection.start
+    void playback.play()
+    const stopAtSelectionEnd = () => {
+      if (playback.currentTime >= selection.end) playback.pause()
+    }
+    playback.addEventListener('timeupdate', stopAtSelectionEnd)
+    playback.addEventListener(
+      'pause',
+      () => playback.removeEventListener('timeupdate', stopAtSelectionEnd),
+      {once: true},
+    )
+  }
+
+  // there has to be something left to listen to
+  const canTrim = selection
+    ? getKeptRanges({...edit, start: selection.start, end: selection.end})
+        .length > 0
+    : false
+  const canCut = selection
+    ? getKeptRanges({...edit, cuts: [...edit.cuts, selection]}).length > 0
+    : false
+
+  return (
+    <div className="mb-8">
+      <Paragraph className="mb-4">
+        {`Drag across the recording to select part of it. You can trim your recording down to the selection or cut the selection out (like a stumble or some dead air).`}
+      </Paragraph>
+      <AudioWaveform
+        src={audioURL}
+        playbackRef={playbackRef}
+        edit={edit}
+        selection={selection}
+        onSelect={setSelection}
+      />
+      <Paragraph className="mb-4">
+        {selection
+          ? `Selected ${formatSeconds(selection.start)} to ${formatSeconds(
+              selection.end,
+            )}`
+          : 'Nothing selected'}
+        {duration && isAudioEdited(edit)
+          ? `. Your edited recording is ${formatSeconds(
+              getEditedDuration(edit, duration),
+            )} long.`
+          : null}
+      </Paragraph>
+      <div className="flex flex-wrap gap-4">
+        <Button
+          size="medium"
+          variant="secondary"
+          disabled={!selection}
+          onClick={playSelection}
+        >
+          Play selection
+        </Button>
+        <Button
+          size="medium"
+          variant="secondary"
+          disabled={!canTrim}
+          onClick={() => {
+            if (!selection) return
+            onTrim(selection)
+            setSelection(null)
+          }}
+        >
+          Trim to selection
+        </Button>
+        <Button
+          size="medium"
+          variant="secondary"
+          disabled={!canCut}
+          onClick={() => {
+            if (!selection) return
+            onCut(selection)
+            setSelection(null)
+          }}
+        >
+          Cut selection
+        </Button>
+        <Button
+          size="medium"
+          variant="secondary"
+          disabled={!isAudioEdited(edit)}
+          onClick={onReset}
+        >
+          Undo edits
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+export {AudioEditor, useEditedPlayback}
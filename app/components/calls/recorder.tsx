@@ -4,6 +4,8 @@ import {createMachine, assign, send as sendUtil} from 'xstate'
 import {useMachine} from '@xstate/react'
 import {inspect} from '@xstate/inspect'
 import {assertNonNull} from '~/utils/misc'
+import type {AudioEdit} from '~/utils/call-kent'
+import {noAudioEdit} from '~/utils/call-kent'
 import {Button, LinkButton} from '../button'
 import {Paragraph} from '../typography'
 import {Tag} from '../tag'
@@ -11,6 +13,8 @@ import {MicrophoneIcon} from '../icons/microphone-icon'
 import {SquareIcon} from '../icons/square-icon'
 import {PauseIcon} from '../icons/pause-icon'
 import {TriangleIcon} from '../icons/triangle-icon'
+import {AudioEditor} from './audio-editor'
+import {getAudioDuration} from './submit-recording-form'
 
 // Play around with these values to affect the audio visualisation.
 // Should be able to stream the visualisation back no problem.
@@ -47,6 +51,7 @@ interface RecorderContext {
   audioDevices: Array<MediaDeviceInfo>
   selectedAudioDevice: MediaDeviceInfo | null
   audioBlob: Blob | null
+  audioEdit: AudioEdit
 }
 
 const recorderMachine = createMachine<RecorderContext>(
@@ -57,6 +62,7 @@ const recorderMachine = createMachine<RecorderContext>(
       audioDevices: [],
       selectedAudioDevice: null,
       audioBlob: null,
+      audioEdit: noAudioEdit,
     },
     initial: 'gettingDevices',
     states: {
@@ -114,6 +120,9 @@ const recorderMachine = createMachine<RecorderContext>(
       done: {
         on: {
           restart: 'ready',
+          trim: {actions: 'trimAudio'},
+          cut: {actions: 'cutAudio'},
+          resetEdit: {actions: 'resetAudioEdit'},
         },
       },
     },
@@ -181,7 +190,22 @@ const recorderMachine = createMachine<RecorderContext>(
       }),
       assignAudioBlob: assign({
         audioBlob: (context, event) => event.blob,
+        audioEdit: noAudioEdit,
       }),
+      trimAudio: assign({
+        audioEdit: (context, event) => ({
+          ...context.audioEdit,
+          start: event.selection.start,
+          end: event.selection.end,
+        }),
+      }),
+      cutAudio: assign({
+        audioEdit: (context, event) => ({
+          ...context.audioEdit,
+          cuts: [...context.audioEdit.cuts, event.selection],
+        }),
+      }),
+      resetAudioEdit: assign({audioEdit: noAudioEdit}),
     },
   },
 )
@@ -189,12 +213,25 @@ const recorderMachine = createMachine<RecorderContext>(
 function CallRecorder({
   onRecordingComplete,
 }: {
-  onRecordingComplete: (audio: Blob) => void
+  onRecordingComplete: (audio: Blob, edit: AudioEdit) => void
 }) {
   const [state, send] = useMachine(recorderMachine, {devTools})
   const metadataRef = React.useRef<Array<number>>([])
   const playbackRef = React.useRef<HTMLAudioElement | null>(null)
-  const {audioBlob} = state.context
+  const [duration, setDuration] = React.useState<number | null>(null)
+  const {audioBlob, audioEdit} = state.context
+
+  React.useEffect(() => {
+    setDuration(null)
+    if (!audioBlob) return
+    let current = true
+    void getAudioDuration(audioBlob).then(seconds => {
+      if (current) setDuration(seconds)
+    })
+    return () => {
+      current = false
+    }
+  }, [audioBlob])
 
   const audioURL = React.useMemo(() => {
     if (audioBlob) {
@@ -256,8 +293,20 @@ function CallRecorder({
           paused={state.matches('recording.paused')}
           playbackRef={playbackRef}
         />
+        <AudioEditor
+          audioURL={audioURL}
+          duration={duration}
+          edit={audioEdit}
+          playbackRef={playbackRef}
+          onTrim={selection => send({type: 'trim', selection})}
+          onCut={selection => send({type: 'cut', selection})}
+          onReset={() => send({type: 'resetEdit'})}
+        />
         <div className="flex flex-wrap gap-4">
-          <Button size="medium" onClick={() => onRecordingComplete(audioBlob)}>
+          <Button
+            size="medium"
+            onClick={() => onRecordingComplete(audioBlob, audioEdit)}
+          >
             Accept
           </Button>
           <Button
@@ -1,7 +1,10 @@
 import * as React from 'react'
 import {Form, useSubmit} from 'remix'
+import type {AudioEdit} from '~/utils/call-kent'
+import {getEditedDuration, isAudioEdited, noAudioEdit} from '~/utils/call-kent'
 import {Field} from '../form-elements'
 import {Button} from '../button'
+import {useEditedPlayback} from './audio-editor'
 
 type RecordingFormData = {
   fields: {
@@ -21,10 +24,39 @@ type RecordingFormData = {
   }
 }
 
-function RecordingForm({audio, data}: {audio: Blob; data?: RecordingFormData}) {
+// recordings from the MediaRecorder don't have a duration in their metadata
+// (an <audio> says it's Infinity) so we have to decode the audio to get it.
+async function getAudioDuration(audio: Blob) {
+  try {
+    const audioContext = new AudioContext()
+    const audioBuffer = await audioContext.decodeAudioData(
+      await audio.arrayBuffer(),
+    )
+    void audioContext.close()
+    return audioBuffer.duration
+  } catch (error: unknown) {
+    console.error('Unable to determine the duration of the recording', error)
+    return null
+  }
+}
+
+function RecordingForm({
+  audio,
+  edit = noAudioEdit,
+  data,
+  submitLabel = 'Submit Recording',
+}: {
+  audio: Blob
+  // the edit from the recorder, which the server applies to the audio
+  edit?: AudioEdit
+  data?: RecordingFormData
+  submitLabel?: string
+}) {
   const audioURL = React.useMemo(() => {
     return window.URL.createObjectURL(audio)
   }, [audio])
+  const playbackRef = React.useRef<HTMLAudioElement | null>(null)
+  useEditedPlayback(playbackRef, edit)
 
   const submit = useSubmit()
 
@@ -35,9 +67,14 @@ function RecordingForm({audio, data}: {audio: Blob; data?: RecordingFormData}) {
     reader.readAsDataURL(audio)
     reader.addEventListener(
       'loadend',
-      () => {
+      async () => {
         if (typeof reader.result === 'string') {
           form.append('audio', reader.result)
+          if (isAudioEdited(edit)) form.append('edit', JSON.stringify(edit))
+          const duration = await getAudioDuration(audio)
+          if (duration) {
+            form.append('duration', String(getEditedDuration(edit, duration)))
+          }
           submit(form, {method: 'post'})
         }
       },
@@ -55,6 +92,7 @@ function RecordingForm({audio, data}: {audio: Blob; data?: RecordingFormData}) {
         ) : null}
         {audioURL ? (
           <audio
+            ref={playbackRef}
             src={audioURL}
             controls
             aria-describedby="audio-error-message"
@@ -92,7 +130,7 @@ function RecordingForm({audio, data}: {audio: Blob; data?: RecordingFormData}) {
         />
 
         <Button type="submit" className="mt-8">
-          Submit Recording
+          {submitLabel}
         </Button>
       </Form>
     </div>
@@ -100,4 +138,4 @@ function RecordingForm({audio, data}: {audio: Blob; data?: RecordingFormData}) {
 }
 
 export type {RecordingFormData}
-export {RecordingForm}
+export {RecordingForm, getAudioDuration}
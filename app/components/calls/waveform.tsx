@@ -0,0 +1,215 @@
+import * as React from 'react'
+import clsx from 'clsx'
+import type {AudioCut, AudioTrim} from '~/utils/call-kent'
+import {getKeptRanges} from '~/utils/call-kent'
+import {Paragraph} from '../typography'
+
+const BAR_WIDTH = 3
+const BAR_GAP = 1
+const MIN_BAR_HEIGHT = 2
+const PLAYED_COLOR = 'hsl(206, 47%, 50%)'
+const UNPLAYED_COLOR = 'hsl(185, 73%, 70%)'
+const TRIMMED_COLOR = 'hsla(0, 0%, 60%, 0.4)'
+const SELECTION_COLOR = 'hsla(206, 47%, 50%, 0.2)'
+
+type AudioSelection = {start: number; end: number}
+
+// the loudest sample in each bar-sized chunk of the audio (from 0 to 1)
+function getPeaks(audioBuffer: AudioBuffer, barCount: number) {
+  const samples = audioBuffer.getChannelData(0)
+  const chunkSize = Math.max(1, Math.floor(samples.length / barCount))
+  const peaks: Array<number> = []
+  for (let bar = 0; bar < barCount; bar++) {
+    const end = Math.min(samples.length, (bar + 1) * chunkSize)
+    let peak = 0
+    for (let index = bar * chunkSize; index < end; index++) {
+      const sample = Math.abs(samples[index] ?? 0)
+      if (sample > peak) peak = sample
+    }
+    peaks.push(peak)
+  }
+  return peaks
+}
+
+function useAudioBuffer(src: string) {
+  const [state, setState] = React.useState<{
+    audioBuffer: AudioBuffer | null
+    error: boolean
+  }>({audioBuffer: null, error: false})
+
+  React.useEffect(() => {
+    let current = true
+    const audioContext = new AudioContext()
+    async function decode() {
+      const response = await fetch(src)
+      const audioBuffer = await audioContext.decodeAudioData(
+        await response.arrayBuffer(),
+      )
+      if (current) setState({audioBuffer, error: false})
+    }
+    decode().catch((error: unknown) => {
+      console.error(`Unable to decode the audio at ${src}`, error)
+      if (current) setState({audioBuffer: null, error: true})
+    })
+    return () => {
+      current = false
+      void audioContext.close()
+    }
+  }, [src])
+
+  return state
+}
+
+/**
+ * A static waveform of a whole recording. When given the <audio> that plays
+ * it, the waveform shows the progress and clicking on it seeks. Parts of the
+ * recording that are edited out are greyed out. With onSelect, dragging across
+ * the waveform selects part of the recording.
+ */
+function AudioWaveform({
+  src,
+  playbackRef,
+  edit,
+  selection,
+  onSelect,
+}: {
+  src: string
+  playbackRef?: React.MutableRefObject<HTMLAudioElement | null>
+  edit?: AudioTrim & {cuts?: Array<AudioCut>}
+  selection?: AudioSelection | null
+  onSelect?: (selection: AudioSelection | null) => void
+}) {
+  const canvasRef = React.useRef<HTMLCanvasElement | null>(null)
+  const dragStartRef = React.useRef<number | null>(null)
+  const [width, setWidth] = React.useState(0)
+  const [currentTime, setCurrentTime] = React.useState(0)
+  const {audioBuffer, error} = useAudioBuffer(src)
+
+  React.useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas) return
+    canvas.width = canvas.offsetWidth
+    canvas.height = canvas.offsetHeight
+    setWidth(canvas.width)
+  }, [])
+
+  React.useEffect(() => {
+    const playback = playbackRef?.current
+    if (!playback) return
+    const updateTime = () => setCurrentTime(playback.currentTime)
+    playback.addEventListener('timeupdate', updateTime)
+    playback.addEventListener('seeked', updateTime)
+    return () => {
+      playback.removeEventListener('timeupdate', updateTime)
+      playback.removeEventListener('seeked', updateTime)
+    }
+  }, [playbackRef])
+
+  const peaks = React.useMemo(() => {
+    if (!audioBuffer || !width) return []
+    return getPeaks(audioBuffer, Math.floor(width / (BAR_WIDTH + BAR_GAP)))
+  }, [audioBuffer, width])
+
+  React.useEffect(() => {
+    const canvas = canvasRef.current
+    const canvasCtx = canvas?.getContext('2d')
+    if (!canvas || !canvasCtx || !audioBuffer) return
+
+    const {duration} = audioBuffer
+    const secondsPerBar = duration / peaks.length
+    const keptRanges = edit ? getKeptRanges(edit) : null
+    const isKept = (time: number) =>
+      !keptRanges ||
+      keptRanges.some(
+        range => time >= range.start && time <= (range.end ?? duration),
+      )
+    const getX = (time: number) => (time / duration) * canvas.width
+
+    canvasCtx.clearRect(0, 0, canvas.width, canvas.height)
+    if (selection) {
+      canvasCtx.fillStyle = SELECTION_COLOR
+      canvasCtx.fillRect(
+        getX(selection.start),
+        0,
+        getX(selection.end) - getX(selection.start),
+        canvas.height,
+      )
+    }
+    peaks.forEach((peak, bar) => {
+      const time = bar * secondsPerBar
+      const height = Math.max(MIN_BAR_HEIGHT, peak * canvas.height)
+      if (!isKept(time)) {
+        canvasCtx.fillStyle = TRIMMED_COLOR
+      } else if (time < currentTime) {
+        canvasCtx.fillStyle = PLAYED_COLOR
+      } else {
+        canvasCtx.fillStyle = UNPLAYED_COLOR
+      }
+      canvasCtx.fillRect(
+        bar * (BAR_WIDTH + BAR_GAP),
+        canvas.height / 2 - height / 2,
+        BAR_WIDTH,
+        height,
+      )
+    })
+  }, [audioBuffer, peaks, currentTime, edit, selection])
+
+  function getTime(event: React.PointerEvent<HTMLCanvasElement>) {
+    if (!audioBuffer) return 0
+    const rect = event.currentTarget.getBoundingClientRect()
+    const ratio = (event.clientX - rect.left) / rect.width
+    return Math.min(Math.max(ratio, 0), 1) * audioBuffer.duration
+  }
+
+  function handlePointerDown(event: React.PointerEvent<HTMLCanvasElement>) {
+    if (!audioBuffer) return
+    if (onSelect) {
+      event.currentTarget.setPointerCapture(event.pointerId)
+      dragStartRef.current = getTime(event)
+      onSelect(null)
+    }
+  }
+
+  function handlePointerMove(event: React.PointerEvent<HTMLCanvasElement>) {
+    const dragStart = dragStartRef.current
+    if (dragStart === null || !onSelect) return
+    const time = getTime(event)
+    onSelect({start: Math.min(dragStart, time), end: Math.max(dragStart, time)})
+  }
+
+  function handlePointerUp(event: React.PointerEvent<HTMLCanvasElement>) {
+    const dragStart = dragStartRef.current
+    dragStartRef.current = null
+    const time = getTime(event)
+    // a click (rather than a drag) seeks
+    const isClick = dragStart === null || Math.abs(time - dragStart) < 0.1
+    const playback = playbackRef?.current
+    if (isClick && playback) {
+      onSelect?.(null)
+      playback.currentTime = time
+    }
+  }
+
+  return (
+    <div className="mb-4">
+      <canvas
+        ref={canvasRef}
+        className={clsx('w-full h-24', {
+          'cursor-pointer': Boolean(playbackRef),
+          'cursor-text': Boolean(onSelect),
+        })}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+      />
+      {error ? (
+        <Paragraph>Unable to show the waveform for this audio.</Paragraph>
+      ) : audioBuffer ? null : (
+        <Paragraph>Loading the waveform...</Paragraph>
+      )}
+    </div>
+  )
+}
+
+export type {AudioSelection}
+export {AudioWaveform}
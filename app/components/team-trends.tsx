@@ -0,0 +1,142 @@
+import * as React from 'react'
+import {Link} from 'remix'
+import clsx from 'clsx'
+import format from 'date-fns/format'
+import parseISO from 'date-fns/parseISO'
+import type {Team} from '@prisma/client'
+import type {TeamTrend} from '~/utils/team-snapshots.server'
+import {
+  formatNumber,
+  teamDisplay,
+  teams,
+  teamTextColorClasses,
+} from '~/utils/misc'
+import {H6, Paragraph} from './typography'
+
+const chartWidth = 600
+const chartHeight = 200
+const chartPadding = 8
+
+function TeamTrendChart({trends}: {trends: Array<TeamTrend>}) {
+  const maxRanking = Math.max(
+    ...trends.flatMap(trend => trend.rankings.map(r => r.ranking)),
+  )
+  const getX = (index: number) =>
+    chartPadding +
+    (index / Math.max(trends.length - 1, 1)) * (chartWidth - chartPadding * 2)
+  const getY = (ranking: number) =>
+    chartHeight -
+    chartPadding -
+    (ranking / (maxRanking || 1)) * (chartHeight - chartPadding * 2)
+
+  return (
+    <svg
+      viewBox={`0 0 ${chartWidth} ${chartHeight}`}
+      className="w-full h-auto"
+      role="img"
+      aria-label="Each team's ranking by week"
+    >
+      {teams.map(team => (
+        <polyline
+          key={team}
+          className={teamTextColorClasses[team]}
+          fill="none"
+          stroke="currentColor"
+          strokeWidth={4}
+          strokeLinejoin="round"
+          strokeLinecap="round"
+          points={trends
+            .map((trend, index) => {
+              const ranking =
+                trend.rankings.find(r => r.team === team)?.ranking ?? 0
+              return `${getX(index)},${getY(ranking)}`
+            })
+            .join(' ')}
+        />
+      ))}
+    </svg>
+  )
+}
+
+function TeamTrends({
+  trends,
+  highlightTeam,
+}: {
+  trends: Array<TeamTrend>
+  highlightTeam?: Team
+}) {
+  const first = trends[0]
+  const last = trends[trends.length - 1]
+  if (!first || !last || first === last) {
+    return (
+      <Paragraph>
+        {`We take a snapshot of the teams every week. Check back once there are a couple to compare.`}
+      </Paragraph>
+    )
+  }
+
+  const leadChanges = trends.filter(trend => trend.swingPosts.length)
+
+  return (
+    <div>
+      <TeamTrendChart trends={trends} />
+      <div className="flex justify-between mt-2 text-secondary text-sm">
+        <span>{format(parseISO(first.weekOf), 'PP')}</span>
+        <span>{format(parseISO(last.weekOf), 'PP')}</span>
+      </div>
+
+      <ul className="flex flex-wrap gap-6 mt-6">
+        {last.rankings.map(({team, weeklyReads, totalReads}) => (
+          <li
+            key={team}
+            className={clsx(teamTextColorClasses[team], {
+              'font-bold': team === highlightTeam,
+            })}
+          >
+            {`${teamDisplay[team]}${
+              last.leader === team ? ' (leading)' : ''
+            }: `}
+            <span className="text-primary">
+              {`${formatNumber(weeklyReads)} reads last week, ${formatNumber(
+                totalReads,
+              )} total`}
+            </span>
+          </li>
+        ))}
+      </ul>
+
+      {leadChanges.length ? (
+        <div className="mt-8">
+          <H6 as="h3">Lead changes</H6>
+          <ul className="mt-4">
+            {leadChanges.map(trend => (
+              <li key={trend.weekOf} className="mb-4">
+                <Paragraph>
+                  {`Week of ${format(parseISO(trend.weekOf), 'PP')}: `}
+                  <span
+                    className={clsx(
+                      trend.leader ? teamTextColorClasses[trend.leader] : null,
+                    )}
+                  >
+                    {trend.leader ? teamDisplay[trend.leader] : null}
+                  </span>
+                  {` took the lead with `}
+                  {trend.swingPosts.map((post, index) => (
+                    <React.Fragment key={post.slug}>
+                      {index ? ', ' : null}
+                      <Link to={`/blog/${post.slug}`} className="underlined">
+                        {post.title}
+                      </Link>
+                    </React.Fragment>
+                  ))}
+                </Paragraph>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
+    </div>
+  )
+}
+
+export {TeamTrends}
@@ -171,8 +171,36 @@ async function tagKCDSiteSubscriber({
   return updatedJson.subscription.subscriber
 }
 
+async function updateConvertKitSubscriberEmail({
+  subscriberId,
+  email,
+}: {
+  subscriberId: string
+  email: string
+}) {
+  const response = await fetch(
+    `https://api.convertkit.com/v3/subscribers/${subscriberId}`,
+    {
+      method: 'put',
+      body: JSON.stringify({
+        api_secret: CONVERT_KIT_API_SECRET,
+        email_address: email,
+      }),
+      headers: {'Content-Type': 'application/json'},
+    },
+  )
+  if (!response.ok) {
+    throw new Error(
+      `Failed to update ConvertKit subscriber ${subscriberId}: ${response.status}`,
+    )
+  }
+  const json = (await response.json()) as {subscriber: ConvertKitSubscriber}
+  return json.subscriber
+}
+
 export {
   getConvertKitSubscriber,
+  updateConvertKitSubscriberEmail,
   getConvertKitSubscriberTags,
   tagKCDSiteSubscriber,
   addTagToSubscriber,
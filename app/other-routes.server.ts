@@ -3,6 +3,13 @@ import {Response} from 'remix'
 import {getSitemapXml} from './utils/sitemap.server'
 import {getRssFeedXml} from './utils/blog-rss-feed.server'
 import {getDocumentReplayResponse} from './utils/prisma.server'
+import {handleGitHubWebhook} from './utils/github-webhook.server'
+import {searchSite} from './utils/search.server'
+import {getCallRecordingResponse} from './utils/call-recordings.server'
+import {getEpisodeDraftAudioResponse} from './utils/publish-call-job.server'
+import {getPasskeyOptionsResponse} from './utils/passkeys.server'
+import {getDataExportResponse} from './utils/data-export.server'
+import {getReadAnalyticsCsvResponse} from './utils/analytics.server'
 
 const startTime = Date.now()
 
@@ -46,6 +53,26 @@ const pathedRoutes: Record<string, Handler> = {
       },
     })
   },
+  '/search.json': async request => {
+    const query = new URL(request.url).searchParams.get('q') ?? ''
+    const results = await searchSite(query, {request})
+    const json = JSON.stringify({query, results})
+    return new Response(json, {
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Length': String(Buffer.byteLength(json)),
+        'Cache-Control': 'public, max-age=300',
+      },
+    })
+  },
+  '/_calls/recording': async request => getCallRecordingResponse(request),
+  '/_calls/episode-draft': async request =>
+    getEpisodeDraftAudioResponse(request),
+  '/_passkeys/options': async request => getPasskeyOptionsResponse(request),
+  '/_me/data-export': async request => getDataExportResponse(request),
+  '/_admin/analytics.csv': async request =>
+    getReadAnalyticsCsvResponse(request),
+  '/_webhooks/github': async request => handleGitHubWebhook(request),
 }
 
 const routes: Array<Handler> = [
@@ -48,7 +48,6 @@ import {getUserInfo} from './utils/user-info.server'
 import {getClientSession} from './utils/client.server'
 import type {Timings} from './utils/metrics.server'
 import {time, getServerTimeHeader} from './utils/metrics.server'
-import {validateMagicLink} from './utils/prisma.server'
 import {useScrollRestoration} from './utils/scroll'
 import {Navbar} from './components/navbar'
 import {Spacer} from './components/spacer'
@@ -141,16 +140,7 @@ export const loader: LoaderFunction = async ({request}) => {
     fn: () => session.getUser(),
   })
 
-  const magicLink = loginInfoSession.getMagicLink()
-  let hasActiveMagicLink = false
-  if (typeof magicLink === 'string') {
-    try {
-      await validateMagicLink(magicLink)
-      hasActiveMagicLink = true
-    } catch {
-      loginInfoSession.unsetMagicLink()
-    }
-  }
+  const hasActiveMagicLink = Boolean(loginInfoSession.getVerifiedEmail())
 
   const data: LoaderData = {
     user,
@@ -0,0 +1,32 @@
+import * as React from 'react'
+import {redirect, json} from 'remix'
+import type {ActionFunction} from 'remix'
+import {getUser} from '~/utils/session.server'
+import {setBookmark} from '~/utils/reading-list.server'
+import {getBlogMdxListItems} from '~/utils/mdx'
+
+export const action: ActionFunction = async ({request}) => {
+  const user = await getUser(request)
+  if (!user) return json({error: 'You have to be logged in'}, 401)
+
+  const params = await request.json()
+  const {articleSlug, bookmarked} = params as Record<string, unknown>
+  if (typeof articleSlug !== 'string' || typeof bookmarked !== 'boolean') {
+    return json({error: 'Invalid bookmark'}, 400)
+  }
+  // removing a bookmark for a post that's gone away is fine
+  if (bookmarked) {
+    const posts = await getBlogMdxListItems({forceFresh: false})
+    if (!posts.some(post => post.slug === articleSlug)) {
+      return json({error: 'Invalid post'}, 400)
+    }
+  }
+  await setBookmark({userId: user.id, slug: articleSlug, bookmarked})
+  return json({bookmarked})
+}
+
+export const loader = () => redirect('/', {status: 404})
+
+export default function Bookmark() {
+  return <div>Oops... You should not see this.</div>
+}
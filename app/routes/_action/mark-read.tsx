@@ -1,29 +1,59 @@
 import * as React from 'react'
-import {redirect, Headers} from 'remix'
+import {redirect, Headers, json} from 'remix'
 import type {ActionFunction} from 'remix'
 import {addPostRead} from '~/utils/prisma.server'
 import {getSession} from '~/utils/session.server'
 import {getClientSession} from '~/utils/client.server'
+import {validatePostRead} from '~/utils/post-read-validation.server'
+import {updateAchievements} from '~/utils/achievements.server'
 
 export const action: ActionFunction = async ({request}) => {
-  const params = await request.json()
+  const params = (await request.json().catch(() => null)) as Record<
+    string,
+    unknown
+  > | null
+  const {articleSlug: slug, readToken} = params ?? {}
+  if (typeof slug !== 'string') {
+    return json({error: 'Invalid post'}, 400)
+  }
+
   const session = await getSession(request)
   const user = await session.getUser()
   const headers = new Headers()
+  let rejection
   if (user) {
-    await addPostRead({
-      slug: params.articleSlug,
+    rejection = await validatePostRead(request, {
+      slug,
+      readToken,
       userId: user.id,
     })
+    const postRead = rejection
+      ? null
+      : await addPostRead({slug, userId: user.id})
+    if (postRead) {
+      // the read counts even if this fails
+      await updateAchievements({
+        userId: user.id,
+        slug,
+        readAt: postRead.createdAt,
+      }).catch((error: unknown) => {
+        console.error(`Failure updating achievements for ${user.id}:`, error)
+      })
+    }
     await session.getHeaders(headers)
   } else {
     const client = await getClientSession(request)
-    await addPostRead({
-      slug: params.articleSlug,
-      clientId: client.getClientId(),
-    })
+    const clientId = client.getClientId()
+    rejection = await validatePostRead(request, {slug, readToken, clientId})
+    if (!rejection) await addPostRead({slug, clientId})
     await client.getHeaders(headers)
   }
+  if (rejection) {
+    return json(
+      {error: `Read not counted: ${rejection}`},
+      {status: 400, headers},
+    )
+  }
   return redirect(new URL(request.url).pathname, {headers})
 }
 
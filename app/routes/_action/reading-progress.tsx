@@ -0,0 +1,83 @@
+import * as React from 'react'
+import {redirect, Headers, json} from 'remix'
+import type {ActionFunction} from 'remix'
+import {saveReadingProgress} from '~/utils/reading-progress.server'
+import {getSession} from '~/utils/session.server'
+import {getClientSession} from '~/utils/client.server'
+import {getBlogMdxListItems} from '~/utils/mdx'
+import {rateLimit} from '~/utils/rate-limit.server'
+import type {RateLimit} from '~/utils/rate-limit.server'
+
+// progress is saved a moment after they stop scrolling, so even someone
+// skimming through a bunch of posts won't get anywhere near this.
+const readingProgressRateLimit: RateLimit = {
+  name: 'reading-progress',
+  perIp: {max: 600, window: 1000 * 60 * 60},
+  perIdentifier: {max: 300, window: 1000 * 60 * 60},
+}
+
+// heading ids are slugs of the heading text, and this ends up in an href
+const maxHeadingIdLength = 200
+function isHeadingId(value: unknown): value is string {
+  return (
+    typeof value === 'string' &&
+    value.length <= maxHeadingIdLength &&
+    /^[\p{L}\p{N}_-]+$/u.test(value)
+  )
+}
+
+export const action: ActionFunction = async ({request}) => {
+  const params = (await request.json().catch(() => null)) as Record<
+    string,
+    unknown
+  > | null
+  const {articleSlug, percent, lastHeadingId} = params ?? {}
+  if (
+    typeof articleSlug !== 'string' ||
+    typeof percent !== 'number' ||
+    !(isHeadingId(lastHeadingId) || lastHeadingId === null)
+  ) {
+    return json({error: 'Invalid reading progress'}, 400)
+  }
+  const posts = await getBlogMdxListItems({forceFresh: false})
+  if (!posts.some(post => post.slug === articleSlug)) {
+    return json({error: 'Invalid post'}, 400)
+  }
+
+  const session = await getSession(request)
+  const user = await session.getUser()
+  const headers = new Headers()
+  let reader: {userId: string} | {clientId: string}
+  if (user) {
+    reader = {userId: user.id}
+    await session.getHeaders(headers)
+  } else {
+    const client = await getClientSession(request)
+    reader = {clientId: client.getClientId()}
+    await client.getHeaders(headers)
+  }
+
+  const rateLimited = await rateLimit(
+    request,
+    readingProgressRateLimit,
+    'userId' in reader ? reader.userId : reader.clientId,
+  )
+  if (rateLimited) {
+    headers.set('Retry-After', rateLimited.headers['Retry-After'])
+    return json({error: rateLimited.message}, {status: 429, headers})
+  }
+
+  await saveReadingProgress({
+    slug: articleSlug,
+    percent,
+    lastHeadingId,
+    ...reader,
+  })
+  return redirect(new URL(request.url).pathname, {headers})
+}
+
+export const loader = () => redirect('/', {status: 404})
+
+export default function ReadingProgress() {
+  return <div>Oops... You should not see this.</div>
+}
@@ -10,10 +10,10 @@ import {useLoaderData, json} from 'remix'
 import pThrottle from 'p-throttle'
 import {prisma} from '~/utils/prisma.server'
 import * as ck from '../../convertkit/convertkit.server'
-import {requireAdminUser} from '~/utils/session.server'
+import {requirePermission} from '~/utils/session.server'
 
 export const loader: LoaderFunction = async ({request}) => {
-  return requireAdminUser(request, async () => {
+  return requirePermission(request, 'manageUsers', async () => {
     const url = new URL(request.url)
     // convert kit has a rate limit of 120 requests per minute
     const throttle = pThrottle({
@@ -0,0 +1,149 @@
+import * as React from 'react'
+import type {LoaderFunction} from 'remix'
+import {Form, json, useLoaderData} from 'remix'
+import {useSearchParams} from 'react-router-dom'
+import type {Await, KCDHandle} from '~/types'
+import {requirePermission} from '~/utils/session.server'
+import {getDateRange, getReadAnalytics} from '~/utils/analytics.server'
+import {formatNumber, teamDisplay} from '~/utils/misc'
+
+export const handle: KCDHandle = {
+  getSitemapEntries: () => null,
+}
+
+type LoaderData = Await<ReturnType<typeof getReadAnalytics>>
+
+export const loader: LoaderFunction = async ({request}) => {
+  return requirePermission(request, 'viewAnalytics', async () => {
+    const range = getDateRange(new URL(request.url).searchParams)
+    const data: LoaderData = await getReadAnalytics(request, range)
+    return json(data)
+  })
+}
+
+function ReadsTable({
+  label,
+  rows,
+}: {
+  label: string
+  rows: Array<{key: string; label: React.ReactNode; reads: number}>
+}) {
+  return (
+    <table>
+      <thead>
+        <tr>
+          <th>{label}</th>
+          <th>Reads</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map(row => (
+          <tr key={row.key}>
+            <td>{row.label}</td>
+            <td>{formatNumber(row.reads)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  )
+}
+
+export default function AnalyticsScreen() {
+  const data = useLoaderData<LoaderData>()
+  const [searchParams] = useSearchParams()
+  const post = searchParams.get('post') ?? ''
+  const daily = post
+    ? data.daily.map(({day}) => ({
+        day,
+        reads:
+          data.dailyPostReads.find(r => r.day === day && r.postSlug === post)
+            ?.reads ?? 0,
+      }))
+    : data.daily
+  const maxDailyReads = Math.max(1, ...daily.map(({reads}) => reads))
+  const csvSearchParams = new URLSearchParams(data.range)
+  return (
+    <div>
+      <h2>Post reads</h2>
+      <Form method="get">
+        <label>
+          From <input type="date" name="from" defaultValue={data.range.from} />
+        </label>{' '}
+        <label>
+          To <input type="date" name="to" defaultValue={data.range.to} />
+        </label>{' '}
+        <label>
+          Post{' '}
+          <select name="post" defaultValue={post}>
+            <option value="">All posts</option>
+            {data.posts.map(({slug, title}) => (
+              <option key={slug} value={slug}>
+                {title}
+              </option>
+            ))}
+          </select>
+        </label>{' '}
+        <button type="submit">Update</button>{' '}
+        <a href={`/_admin/analytics.csv?${csvSearchParams}`} download>
+          Download CSV
+        </a>
+      </Form>
+      <hr />
+
+      <p>
+        {`${formatNumber(data.totalReads)} reads: ${formatNumber(
+          data.loggedInReads,
+        )} logged in and ${formatNumber(data.anonymousReads)} anonymous.`}
+      </p>
+      <p>
+        {`${formatNumber(data.newReaders)} new readers and ${formatNumber(
+          data.returningReaders,
+        )} returning readers.`}
+      </p>
+
+      <h3>Reads over time</h3>
+      <ul>
+        {daily.map(({day, reads}) => (
+          <li key={day} className="flex items-center gap-2">
+            <span className="w-28">{day}</span>
+            <span
+              className="h-3 bg-team-current"
+              style={{width: `${(reads / maxDailyReads) * 50}%`}}
+            />
+            <span>{formatNumber(reads)}</span>
+          </li>
+        ))}
+      </ul>
+
+      <h3>By team</h3>
+      <ReadsTable
+        label="Team"
+        rows={data.teams.map(({team, reads}) => ({
+          key: team,
+          label: teamDisplay[team],
+          reads,
+        }))}
+      />
+
+      <h3>By category</h3>
+      <ReadsTable
+        label="Category"
+        rows={data.categories.map(({category, reads}) => ({
+          key: category,
+          label: category,
+          reads,
+        }))}
+      />
+
+      <h3>By post</h3>
+      <ReadsTable
+        label="Post"
+        rows={data.posts.map(({slug, title, reads}) => ({
+          key: slug,
+          label: <a href={`/blog/${slug}`}>{title}</a>,
+          reads,
+        }))}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,97 @@
+import * as React from 'react'
+import type {LoaderFunction} from 'remix'
+import {Link, json, useLoaderData} from 'remix'
+import {formatDistanceToNow, subWeeks} from 'date-fns'
+import type {Await, KCDHandle} from '~/types'
+import {requirePermission} from '~/utils/session.server'
+import {prisma} from '~/utils/prisma.server'
+import {getDeviceDescription} from '~/utils/user-agent'
+
+export const handle: KCDHandle = {
+  getSitemapEntries: () => null,
+}
+
+async function getRejectedReads() {
+  const [reasons, rejectedReads] = await Promise.all([
+    prisma.rejectedPostRead.groupBy({
+      by: ['reason'],
+      _count: true,
+      where: {createdAt: {gt: subWeeks(new Date(), 1)}},
+    }),
+    prisma.rejectedPostRead.findMany({
+      orderBy: {createdAt: 'desc'},
+      take: 100,
+      include: {user: {select: {email: true, team: true}}},
+    }),
+  ])
+  return {reasons, rejectedReads}
+}
+
+type LoaderData = Await<ReturnType<typeof getRejectedReads>>
+
+export const loader: LoaderFunction = async ({request}) => {
+  return requirePermission(request, 'manageUsers', async () => {
+    const data: LoaderData = await getRejectedReads()
+    return json(data)
+  })
+}
+
+export default function RejectedReadsScreen() {
+  const data = useLoaderData<LoaderData>()
+  return (
+    <div>
+      <h2>Rejected reads</h2>
+      <p>
+        {`Reads that didn't count toward the team rankings. In the last week: `}
+        {data.reasons.length
+          ? data.reasons
+              .map(({reason, _count}) => `${reason} (${_count})`)
+              .join(', ')
+          : 'none'}
+      </p>
+      <hr />
+      {data.rejectedReads.length ? (
+        <table>
+          <thead>
+            <tr>
+              <th>When</th>
+              <th>Post</th>
+              <th>Reason</th>
+              <th>Who</th>
+              <th>Device</th>
+              <th>IP</th>
+            </tr>
+          </thead>
+          <tbody>
+            {data.rejectedReads.map(read => (
+              <tr key={read.id}>
+                <td>
+                  {formatDistanceToNow(new Date(read.createdAt), {
+                    addSuffix: true,
+                  })}
+                </td>
+                <td>{read.postSlug}</td>
+                <td>{read.reason}</td>
+                <td>
+                  {read.user && read.userId ? (
+                    <Link to={`/admin/users/${read.userId}`}>
+                      {`${read.user.email} (${read.user.team})`}
+                    </Link>
+                  ) : (
+                    `client ${read.clientId ?? 'unknown'}`
+                  )}
+                </td>
+                <td title={read.userAgent ?? undefined}>
+                  {getDeviceDescription(read.userAgent)}
+                </td>
+                <td>{read.ip}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : (
+        <p>No rejected reads.</p>
+      )}
+    </div>
+  )
+}
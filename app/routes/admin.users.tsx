@@ -0,0 +1,140 @@
+import * as React from 'react'
+import type {LoaderFunction} from 'remix'
+import {Form, Link, json, useLoaderData} from 'remix'
+import {Outlet} from 'react-router-dom'
+import type {Await, KCDHandle} from '~/types'
+import {requirePermission} from '~/utils/session.server'
+import {prisma} from '~/utils/prisma.server'
+import {getAvatarForUser} from '~/utils/misc'
+
+export const handle: KCDHandle = {
+  getSitemapEntries: () => null,
+}
+
+const pageSize = 50
+
+async function getUsers(query: string) {
+  const users = await prisma.user.findMany({
+    where: query
+      ? {
+          OR: [
+            {email: {contains: query, mode: 'insensitive'}},
+            {firstName: {contains: query, mode: 'insensitive'}},
+            {id: query},
+          ],
+        }
+      : undefined,
+    select: {
+      id: true,
+      email: true,
+      firstName: true,
+      team: true,
+      role: true,
+      discordId: true,
+      convertKitId: true,
+      createdAt: true,
+    },
+    orderBy: {createdAt: 'desc'},
+    take: pageSize,
+  })
+  const userIds = users.map(user => user.id)
+  const [reads, calls] = await Promise.all([
+    prisma.postRead.groupBy({
+      by: ['userId'],
+      _count: true,
+      where: {userId: {in: userIds}},
+    }),
+    prisma.call.groupBy({
+      by: ['userId'],
+      _count: true,
+      where: {userId: {in: userIds}},
+    }),
+  ])
+  const getCount = (
+    counts: Array<{userId: string | null; _count: number}>,
+    userId: string,
+  ) => counts.find(count => count.userId === userId)?._count ?? 0
+  return users.map(user => ({
+    ...user,
+    readCount: getCount(reads, user.id),
+    callCount: getCount(calls, user.id),
+  }))
+}
+
+type LoaderData = {
+  query: string
+  users: Await<ReturnType<typeof getUsers>>
+}
+
+export const loader: LoaderFunction = async ({request}) => {
+  return requirePermission(request, 'manageUsers', async () => {
+    const query = new URL(request.url).searchParams.get('q')?.trim() ?? ''
+    const data: LoaderData = {query, users: await getUsers(query)}
+    return json(data)
+  })
+}
+
+export default function UserListScreen() {
+  const data = useLoaderData<LoaderData>()
+  return (
+    <div>
+      <h2>Users</h2>
+      <Form method="get">
+        <label>
+          Search by email, name, or ID{' '}
+          <input type="search" name="q" defaultValue={data.query} />
+        </label>
+        <button type="submit">Search</button>
+      </Form>
+      <hr />
+      <main className="flex">
+        <div className="w-96 overscroll-auto">
+          {data.users.length ? (
+            <ul>
+              {data.users.map(user => {
+                const avatar = getAvatarForUser(user)
+                return (
+                  <li key={user.id}>
+                    <img
+                      alt={avatar.alt}
+                      src={avatar.src}
+                      style={{
+                        height: 64,
+                        borderColor: user.team.toLowerCase(),
+                        borderWidth: 2,
+                        borderStyle: 'solid',
+                      }}
+                    />
+                    <Link to={user.id}>{user.firstName}</Link>{' '}
+                    <small>{user.email}</small>
+                    <div>
+                      <small>
+                        {[
+                          user.role,
+                          user.team,
+                          `${user.readCount} reads`,
+                          `${user.callCount} calls`,
+                          user.discordId ? 'Discord' : null,
+                          user.convertKitId ? 'ConvertKit' : null,
+                        ]
+                          .filter(Boolean)
+                          .join(' · ')}
+                      </small>
+                    </div>
+                  </li>
+                )
+              })}
+            </ul>
+          ) : (
+            <p>No users.</p>
+          )}
+          {data.users.length === pageSize ? (
+            <p>{`Showing the newest ${pageSize}. Search to find someone else.`}</p>
+          ) : null}
+        </div>
+        <Outlet />
+      </main>
+      <hr />
+    </div>
+  )
+}
@@ -0,0 +1,246 @@
+import * as React from 'react'
+import {Form, Link, json, redirect, useActionData, useLoaderData} from 'remix'
+import {format} from 'date-fns'
+import Dialog from '@reach/dialog'
+import type {Await, KCDAction, KCDHandle, KCDLoader, Role, Team} from '~/types'
+import {requirePermission} from '~/utils/session.server'
+import {
+  deleteUser,
+  deleteUserSessions,
+  getUserSessions,
+  prisma,
+} from '~/utils/prisma.server'
+import {getErrorMessage, teams} from '~/utils/misc'
+import {roles} from '~/utils/permissions'
+import {callStatusLabels} from '~/utils/call-kent'
+import {tagKCDSiteSubscriber} from '~/convertkit/convertkit.server'
+import {syncDiscordMember} from '~/utils/discord.server'
+import {
+  deleteConvertKitCache,
+  deleteDiscordCache,
+} from '~/utils/user-info.server'
+import {ErrorPanel} from '~/components/form-elements'
+
+export const handle: KCDHandle = {
+  getSitemapEntries: () => null,
+}
+
+const actionIds = {
+  changeRole: 'change role',
+  changeTeam: 'change team',
+  signOut: 'sign out',
+  syncConvertKit: 'sync convertkit',
+  syncDiscord: 'sync discord',
+  deleteAccount: 'delete account',
+}
+
+type ActionData = {
+  error: string
+}
+
+export const action: KCDAction<{userId: string}> = async ({
+  request,
+  params,
+}) => {
+  return requirePermission(request, 'manageUsers', async admin => {
+    const user = await prisma.user.findUnique({where: {id: params.userId}})
+    if (!user) return redirect('/admin/users')
+
+    const form = new URLSearchParams(await request.text())
+    const actionId = form.get('actionId')
+    const pathname = new URL(request.url).pathname
+    try {
+      // so admins can't lock themselves out by accident
+      const isSelf = user.id === admin.id
+      if (
+        isSelf &&
+        (actionId === actionIds.changeRole ||
+          actionId === actionIds.deleteAccount)
+      ) {
+        throw new Error(`You can't do that to your own account.`)
+      }
+
+      if (actionId === actionIds.changeRole) {
+        const role = form.get('role')
+        if (!roles.includes(role as Role)) throw new Error('Invalid role')
+        await prisma.user.update({
+          where: {id: user.id},
+          data: {role: role as Role},
+        })
+      }
+      if (actionId === actionIds.changeTeam) {
+        const team = form.get('team')
+        if (!teams.includes(team as Team)) throw new Error('Invalid team')
+        const updatedUser = await prisma.user.update({
+          where: {id: user.id},
+          data: {team: team as Team},
+        })
+        // their discord roles follow their team
+        await syncDiscordMember(updatedUser)
+      }
+      if (actionId === actionIds.signOut) {
+        await deleteUserSessions(user.id)
+      }
+      if (actionId === actionIds.syncConvertKit) {
+        const subscriber = await tagKCDSiteSubscriber(user)
+        await prisma.user.update({
+          where: {id: user.id},
+          data: {convertKitId: String(subscriber.id)},
+        })
+        await deleteConvertKitCache(subscriber.id)
+      }
+      if (actionId === actionIds.syncDiscord && user.discordId) {
+        await syncDiscordMember(user)
+        await deleteDiscordCache(user.discordId)
+      }
+      if (actionId === actionIds.deleteAccount) {
+        await deleteUser(user.id)
+        return redirect('/admin/users')
+      }
+      return redirect(pathname)
+    } catch (error: unknown) {
+      const actionData: ActionData = {error: getErrorMessage(error)}
+      return json(actionData, 400)
+    }
+  })
+}
+
+async function getUserDetails(userId: string) {
+  const [user, sessions, readCount] = await Promise.all([
+    prisma.user.findUnique({
+      where: {id: userId},
+      include: {
+        calls: {
+          select: {id: true, title: true, status: true},
+          orderBy: {createdAt: 'desc'},
+        },
+      },
+    }),
+    getUserSessions(userId),
+    prisma.postRead.count({where: {userId}}),
+  ])
+  return user ? {...user, sessionCount: sessions.length, readCount} : null
+}
+
+type LoaderData = {
+  user: NonNullable<Await<ReturnType<typeof getUserDetails>>>
+}
+
+export const loader: KCDLoader<{userId: string}> = async ({
+  request,
+  params,
+}) => {
+  return requirePermission(request, 'manageUsers', async () => {
+    const user = await getUserDetails(params.userId)
+    if (!user) return redirect('/admin/users')
+    const data: LoaderData = {user}
+    return json(data)
+  })
+}
+
+function ActionForm({
+  actionId,
+  children,
+}: {
+  actionId: string
+  children: React.ReactNode
+}) {
+  return (
+    <Form method="post">
+      <input type="hidden" name="actionId" value={actionId} />
+      {children}
+    </Form>
+  )
+}
+
+export default function UserDetailScreen() {
+  const {user} = useLoaderData<LoaderData>()
+  const actionData = useActionData<ActionData>()
+  const [deleteModalOpen, setDeleteModalOpen] = React.useState(false)
+  return (
+    <section>
+      <strong>{user.firstName}</strong>
+      <p>{user.email}</p>
+      <p>{`Joined ${format(new Date(user.createdAt), 'PPP')}`}</p>
+      <p>{`${user.readCount} reads, signed in on ${user.sessionCount} devices`}</p>
+      {actionData?.error ? <ErrorPanel>{actionData.error}</ErrorPanel> : null}
+
+      <ActionForm actionId={actionIds.changeRole}>
+        <label>
+          Role{' '}
+          <select name="role" defaultValue={user.role}>
+            {roles.map(role => (
+              <option key={role} value={role}>
+                {role}
+              </option>
+            ))}
+          </select>
+        </label>
+        <button type="submit">Change role</button>
+      </ActionForm>
+
+      <ActionForm actionId={actionIds.changeTeam}>
+        <label>
+          Team{' '}
+          <select name="team" defaultValue={user.team}>
+            {teams.map(team => (
+              <option key={team} value={team}>
+                {team}
+              </option>
+            ))}
+          </select>
+        </label>
+        <button type="submit">Change team</button>
+      </ActionForm>
+
+      <ActionForm actionId={actionIds.syncConvertKit}>
+        {`ConvertKit: ${user.convertKitId ?? 'not subscribed'} `}
+        <button type="submit">Sync ConvertKit</button>
+      </ActionForm>
+
+      <ActionForm actionId={actionIds.syncDiscord}>
+        {`Discord: ${user.discordId ?? 'not connected'} `}
+        {user.discordId ? <button type="submit">Sync Discord</button> : null}
+      </ActionForm>
+
+      <ActionForm actionId={actionIds.signOut}>
+        <button type="submit">Sign out everywhere</button>
+      </ActionForm>
+
+      <h3>Calls</h3>
+      {user.calls.length ? (
+        <ul>
+          {user.calls.map(call => (
+            <li key={call.id}>
+              <Link to={`/calls/admin/${call.id}`}>{call.title}</Link>{' '}
+              <small>{callStatusLabels[call.status]}</small>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p>No calls.</p>
+      )}
+
+      <button type="button" onClick={() => setDeleteModalOpen(true)}>
+        Delete account
+      </button>
+
+      <Dialog
+        onDismiss={() => setDeleteModalOpen(false)}
+        isOpen={deleteModalOpen}
+        aria-label={`Delete ${user.email}'s account`}
+        className="px-24 py-14 max-w-screen-lg dark:bg-gray-900 border-2 border-black dark:border-white rounded-lg"
+      >
+        <p>
+          {`Delete ${user.email}'s account and everything that goes with it? There's no going back.`}
+        </p>
+        <ActionForm actionId={actionIds.deleteAccount}>
+          <button type="button" onClick={() => setDeleteModalOpen(false)}>
+            Nevermind
+          </button>{' '}
+          <button type="submit">Delete account</button>
+        </ActionForm>
+      </Dialog>
+    </section>
+  )
+}
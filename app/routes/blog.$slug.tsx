@@ -1,5 +1,5 @@
 import * as React from 'react'
-import {useLoaderData, json} from 'remix'
+import {useLoaderData, json, Headers} from 'remix'
 import type {HeadersFunction} from 'remix'
 import {Link, useParams} from 'react-router-dom'
 import type {Await, KCDHandle, KCDLoader, MdxListItem, MdxPage} from '~/types'
@@ -20,6 +20,12 @@ import {
   getTotalPostReads,
   getBlogRecommendations,
 } from '~/utils/blog.server'
+import {getResumePosition} from '~/utils/reading-progress.server'
+import {getReadToken} from '~/utils/post-read-validation.server'
+import {getBookmarkedSlugs} from '~/utils/reading-list.server'
+import {getUser} from '~/utils/session.server'
+import {getClientSession} from '~/utils/client.server'
+import {BookmarkButton} from '~/components/bookmark-button'
 import {FourOhFour, ServerError} from '~/components/errors'
 import {externalLinks} from '../external-links'
 import {TeamStats} from '~/components/team-stats'
@@ -42,6 +48,11 @@ type LoaderData = {
   recommendations: Array<MdxListItem>
   readRankings: Await<ReturnType<typeof getBlogReadRankings>>
   totalReads: string
+  resumePosition: Await<ReturnType<typeof getResumePosition>>
+  // marking the post as read needs this to show they've been here a while
+  readToken: string
+  // null when they're not logged in
+  isBookmarked: boolean | null
 }
 
 export const loader: KCDLoader<{slug: string}> = async ({request, params}) => {
@@ -54,7 +65,19 @@ export const loader: KCDLoader<{slug: string}> = async ({request, params}) => {
     {request, timings},
   )
 
-  const [recommendations, readRankings, totalReads] = await Promise.all([
+  const user = await getUser(request)
+  // the read token is only good for whoever loaded the page, so someone new
+  // needs to keep the client ID it's for
+  const client = user ? null : await getClientSession(request)
+  const readerId = user?.id ?? client?.getClientId() ?? ''
+
+  const [
+    recommendations,
+    readRankings,
+    totalReads,
+    resumePosition,
+    isBookmarked,
+  ] = await Promise.all([
     getBlogRecommendations(request, {
       limit: 3,
       keywords: [
@@ -65,6 +88,10 @@ export const loader: KCDLoader<{slug: string}> = async ({request, params}) => {
     }),
     getBlogReadRankings(request, params.slug),
     getTotalPostReads(request, params.slug),
+    getResumePosition(request, params.slug),
+    user
+      ? getBookmarkedSlugs(user.id).then(slugs => slugs.includes(params.slug))
+      : null,
   ])
 
   const data: LoaderData = {
@@ -72,16 +99,27 @@ export const loader: KCDLoader<{slug: string}> = async ({request, params}) => {
     recommendations,
     readRankings,
     totalReads: formatNumber(totalReads),
+    resumePosition,
+    readToken: getReadToken({slug: params.slug, readerId}),
+    isBookmarked,
   }
-  const headers = {
-    'Cache-Control': 'private, max-age=3600',
+  const headers = new Headers({
+    // the read token, bookmark and reading progress are for this reader right
+    // now, so a cached copy would be wrong (and would make the token look old)
+    'Cache-Control': 'private, no-cache',
     'Server-Timing': getServerTimeHeader(timings),
-  }
+  })
+  await client?.getHeaders(headers)
 
   return json(data, {status: page ? 200 : 404, headers})
 }
 
-export const headers: HeadersFunction = reuseUsefulLoaderHeaders
+export const headers: HeadersFunction = args => {
+  const usefulHeaders = reuseUsefulLoaderHeaders(args)
+  const clientCookie = args.loaderHeaders.get('Set-Cookie')
+  if (clientCookie) usefulHeaders.set('Set-Cookie', clientCookie)
+  return usefulHeaders
+}
 
 export const meta = mdxPageMeta
 
@@ -167,6 +205,66 @@ function useOnRead({
   }, [readTime, onRead, parentElRef])
 }
 
+type ReadingProgress = {percent: number; lastHeadingId: string | null}
+
+function useReadingProgress({
+  parentElRef,
+  onProgress,
+}: {
+  parentElRef: React.RefObject<HTMLElement>
+  onProgress: (progress: ReadingProgress) => void
+}) {
+  React.useEffect(() => {
+    const parentEl = parentElRef.current
+    if (!parentEl) return
+
+    let lastPercent: number | null = null
+    let lastHeadingId: string | null = null
+    function getProgress() {
+      if (!parentEl) return null
+      const rect = parentEl.getBoundingClientRect()
+      const scrolled = window.innerHeight - rect.top
+      const percent = Math.min(
+        Math.max(Math.round((scrolled / rect.height) * 100), 0),
+        100,
+      )
+      // the last heading that has been scrolled to the top of the screen
+      let headingId: string | null = null
+      const headings = Array.from(parentEl.querySelectorAll('h2[id], h3[id]'))
+      for (const heading of headings) {
+        if (heading.getBoundingClientRect().top > 1) break
+        headingId = heading.id
+      }
+      return {percent, lastHeadingId: headingId}
+    }
+
+    // only let them know once they've stopped scrolling for a bit
+    let timerId: ReturnType<typeof setTimeout>
+    function handleScroll() {
+      clearTimeout(timerId)
+      timerId = setTimeout(() => {
+        const progress = getProgress()
+        if (!progress) return
+        if (
+          progress.percent === lastPercent &&
+          progress.lastHeadingId === lastHeadingId
+        ) {
+          return
+        }
+        lastPercent = progress.percent
+        lastHeadingId = progress.lastHeadingId
+        onProgress(progress)
+      }, 1000)
+    }
+
+    window.addEventListener('scroll', handleScroll, {passive: true})
+    return () => {
+      clearTimeout(timerId)
+      window.removeEventListener('scroll', handleScroll)
+    }
+  }, [parentElRef, onProgress])
+}
+
 function ArticleFooter({
   permalink,
   title = 'an awesome post',
@@ -258,9 +356,24 @@ function MdxScreen() {
       ])
       void fetch(`/_action/mark-read?${searchParams}`, {
         method: 'POST',
-        body: JSON.stringify({articleSlug: slug}),
+        body: JSON.stringify({articleSlug: slug, readToken: data.readToken}),
       })
-    }, [slug]),
+    }, [slug, data.readToken]),
+  })
+  useReadingProgress({
+    parentElRef: readMarker,
+    onProgress: React.useCallback(
+      ({percent, lastHeadingId}: ReadingProgress) => {
+        const searchParams = new URLSearchParams([
+          ['_data', 'routes/_action/reading-progress'],
+        ])
+        void fetch(`/_action/reading-progress?${searchParams}`, {
+          method: 'POST',
+          body: JSON.stringify({articleSlug: slug, percent, lastHeadingId}),
+        })
+      },
+      [slug],
+    ),
   })
 
   return (
@@ -278,13 +391,27 @@ function MdxScreen() {
 
       <Grid as="header" className="mb-12">
         <div className="col-span-full lg:col-span-8 lg:col-start-3">
-          <H2>{frontmatter.title}</H2>
+          <div className="flex gap-4 items-start justify-between">
+            <H2>{frontmatter.title}</H2>
+            {slug && data.isBookmarked !== null ? (
+              <BookmarkButton slug={slug} isBookmarked={data.isBookmarked} />
+            ) : null}
+          </div>
           <H6 as="p" variant="secondary" className="mt-2">
             {frontmatter.date
               ? formatDate(new Date(frontmatter.date), 'PPP')
               : 'some day in the past'}{' '}
             — {data.page.readTime?.text ?? 'a quick read'}
           </H6>
+          {data.resumePosition ? (
+            <ArrowLink
+              to={`#${data.resumePosition.headingId}`}
+              direction="down"
+              className="mt-6"
+            >
+              {`Resume where you left off (${data.resumePosition.percent}%)`}
+            </ArrowLink>
+          ) : null}
         </div>
         <div className="aspect-h-4 aspect-w-3 md:aspect-w-3 md:aspect-h-2 col-span-full mt-10 rounded-lg lg:col-span-10 lg:col-start-2">
           {frontmatter.bannerCloudinaryId ? (
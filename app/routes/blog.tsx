@@ -35,6 +35,9 @@ import {
   getReaderCount,
   getTotalPostReads,
 } from '~/utils/blog.server'
+import {getReadingProgressBySlug} from '~/utils/reading-progress.server'
+import {getBookmarkedSlugs} from '~/utils/reading-list.server'
+import {getUser} from '~/utils/session.server'
 
 export const handle: KCDHandle = {
   getSitemapEntries: () => [
@@ -52,19 +55,31 @@ type LoaderData = {
   readRankings: Await<ReturnType<typeof getBlogReadRankings>>
   totalReads: string
   totalBlogReaders: string
+  readingProgress: Await<ReturnType<typeof getReadingProgressBySlug>>
+  // null when they're not logged in
+  bookmarkedSlugs: Array<string> | null
 }
 
 export const loader: LoaderFunction = async ({request}) => {
   const timings: Timings = {}
 
-  const [posts, [recommended], readRankings, totalReads, totalBlogReaders] =
-    await Promise.all([
-      getBlogMdxListItems({request, timings}),
-      getBlogRecommendations(request, {limit: 1}),
-      getBlogReadRankings(request),
-      getTotalPostReads(request),
-      getReaderCount(request),
-    ])
+  const [
+    posts,
+    [recommended],
+    readRankings,
+    totalReads,
+    totalBlogReaders,
+    readingProgress,
+    bookmarkedSlugs,
+  ] = await Promise.all([
+    getBlogMdxListItems({request, timings}),
+    getBlogRecommendations(request, {limit: 1}),
+    getBlogReadRankings(request),
+    getTotalPostReads(request),
+    getReaderCount(request),
+    getReadingProgressBySlug(request),
+    getUser(request).then(user => (user ? getBookmarkedSlugs(user.id) : null)),
+  ])
 
   const tags = new Set<string>()
   for (const post of posts) {
@@ -80,6 +95,8 @@ export const loader: LoaderFunction = async ({request}) => {
     totalReads: formatNumber(totalReads),
     totalBlogReaders: formatNumber(totalBlogReaders),
     tags: Array.from(tags),
+    readingProgress,
+    bookmarkedSlugs,
   }
 
   return json(data, {
@@ -284,7 +301,11 @@ function BlogHome() {
         ) : (
           posts.map(article => (
             <div key={article.slug} className="col-span-4 mb-10">
-              <ArticleCard {...article} />
+              <ArticleCard
+                {...article}
+                readingProgress={data.readingProgress[article.slug]}
+                isBookmarked={data.bookmarkedSlugs?.includes(article.slug)}
+              />
             </div>
           ))
         )}
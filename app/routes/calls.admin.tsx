@@ -9,16 +9,18 @@ import {
 } from 'remix'
 import {Outlet} from 'react-router-dom'
 import type {Await, KCDHandle} from '~/types'
-import {requireAdminUser} from '~/utils/session.server'
+import {requirePermission} from '~/utils/session.server'
 import {prisma} from '~/utils/prisma.server'
+import {deleteCall} from '~/utils/call-recordings.server'
 import {getAvatarForUser} from '~/utils/misc'
+import {callStatusLabels} from '~/utils/call-kent'
 
 export const handle: KCDHandle = {
   getSitemapEntries: () => null,
 }
 
 export const action: ActionFunction = async ({request}) => {
-  return requireAdminUser(request, async () => {
+  return requirePermission(request, 'deleteCalls', async () => {
     const requestText = await request.text()
     const form = new URLSearchParams(requestText)
     const callId = form.get('callId')
@@ -28,8 +30,8 @@ export const action: ActionFunction = async ({request}) => {
       return redirect(new URL(request.url).pathname)
     }
     const call = await prisma.call.findFirst({
-      // NOTE: since we require an admin user, we don't need to check
-      // whether this user is the creator of the call
+      // NOTE: since we require permission to delete calls, we don't need to
+      // check whether this user is the creator of the call
       where: {id: callId},
     })
     if (!call) {
@@ -37,7 +39,7 @@ export const action: ActionFunction = async ({request}) => {
       console.warn(`Failed to get a call to delete by callId: ${callId}`)
       return redirect(new URL(request.url).pathname)
     }
-    await prisma.call.delete({where: {id: callId}})
+    await deleteCall(callId)
     return redirect(new URL(request.url).pathname)
   })
 }
@@ -49,6 +51,7 @@ async function getAllCalls() {
       title: true,
       description: true,
       updatedAt: true,
+      status: true,
       user: {select: {firstName: true, team: true, email: true}},
     },
     orderBy: {updatedAt: 'desc'},
@@ -61,7 +64,7 @@ type LoaderData = {
 }
 
 export const loader: LoaderFunction = async ({request}) => {
-  return requireAdminUser(request, async () => {
+  return requirePermission(request, 'triageCalls', async () => {
     const data: LoaderData = {calls: await getAllCalls()}
     return json(data)
   })
@@ -93,6 +96,7 @@ export default function CallListScreen() {
                     />
                     <Link to={call.id}>{call.title}</Link>
                     <small>{call.description}</small>
+                    <small>{callStatusLabels[call.status]}</small>
                   </li>
                 )
               })}
@@ -1,22 +1,59 @@
 import * as React from 'react'
-import {redirect, Form, json, useActionData, useLoaderData, Link} from 'remix'
-import type {Call, KCDAction, KCDHandle, KCDLoader} from '~/types'
-import {format} from 'date-fns'
+import {
+  redirect,
+  Form,
+  json,
+  useActionData,
+  useLoaderData,
+  useTransition,
+  Link,
+} from 'remix'
+import {useNavigate} from 'react-router-dom'
+import {formatDistanceToNow} from 'date-fns'
+import type {
+  Await,
+  Call,
+  KCDAction,
+  KCDHandle,
+  KCDLoader,
+  Request,
+} from '~/types'
 import {CallRecorder} from '~/components/calls/recorder'
-import {requireAdminUser} from '~/utils/session.server'
+import {AudioWaveform} from '~/components/calls/waveform'
+import {Button} from '~/components/button'
+import {ErrorPanel, Field, InputError} from '~/components/form-elements'
+import {H3, H6, Paragraph} from '~/components/typography'
+import {requirePermission} from '~/utils/session.server'
+import {hasPermission} from '~/utils/permissions'
+import {useUser} from '~/utils/providers'
 import {prisma} from '~/utils/prisma.server'
+import {getDomainUrl, getErrorMessage, getNonNull} from '~/utils/misc'
+import {deleteCall} from '~/utils/call-recordings.server'
+import {declineCall} from '~/utils/call-status.server'
 import {
-  getAvatarForUser,
-  getDomainUrl,
-  getErrorMessage,
-  getNonNull,
-} from '~/utils/misc'
-import {createEpisodeAudio} from '~/utils/ffmpeg.server'
-import {createEpisode} from '~/utils/transistor.server'
+  createEpisodeDraft,
+  discardEpisodeDraft,
+  getLatestPublishCallJob,
+  maxPublishCallJobAttempts,
+  publishEpisodeDraft,
+  retryPublishCallJob,
+  updateEpisodeDraft,
+} from '~/utils/publish-call-job.server'
 import type {RecordingFormData} from '~/components/calls/submit-recording-form'
 import {RecordingForm} from '~/components/calls/submit-recording-form'
+import type {AudioEdit, AudioTrim} from '~/utils/call-kent'
+import {audioPresets, getErrorForAudioPreset} from '~/utils/audio-pipeline'
 import {
+  callStatusLabels,
+  isCallClosed,
+  getCallRecordingUrl,
+  getEpisodeDraftAudioUrl,
+  getErrorForTrim,
+  getTrimFromFormValues,
   getErrorForAudio,
+  getErrorForAudioEdit,
+  noAudioEdit,
+  parseAudioEdit,
   getErrorForTitle,
   getErrorForDescription,
   getErrorForKeywords,
@@ -26,30 +63,142 @@ export const handle: KCDHandle = {
   getSitemapEntries: () => null,
 }
 
-type ActionData = RecordingFormData
+type DraftErrors = {trim: string | null; audioPreset: string | null}
+type ActionData = RecordingFormData & {draftErrors?: DraftErrors}
+
+const actionIds = {
+  retryPublish: 'retry publish',
+  updateDraft: 'update draft',
+  discardDraft: 'discard draft',
+  publishDraft: 'publish draft',
+  declineCall: 'decline call',
+}
+const draftActionIds = [
+  actionIds.updateDraft,
+  actionIds.discardDraft,
+  actionIds.publishDraft,
+]
+
+// the note is optional, so an empty one is no note at all
+function getNoteFromFormValue(note: string | null) {
+  const trimmed = note?.trim() ?? ''
+  return trimmed === '' ? null : trimmed
+}
+
+async function handleDraftAction(
+  request: Request,
+  {
+    callId,
+    actionId,
+    form,
+    actionData,
+  }: {
+    callId: string
+    actionId: string
+    form: URLSearchParams
+    actionData: ActionData
+  },
+) {
+  // the form says which draft it's for, so make sure that's this call's
+  const job = await prisma.publishCallJob.findFirst({
+    where: {id: form.get('jobId') ?? '', callId},
+    select: {id: true},
+  })
+  if (!job) {
+    actionData.errors.generalError = `That episode draft isn't for this call. Reload the page and try again.`
+    return json(actionData, 400)
+  }
+
+  if (actionId === actionIds.updateDraft) {
+    const trimStart = form.get('trimStart')
+    const trimEnd = form.get('trimEnd')
+    const audioPreset = form.get('audioPreset')
+    actionData.draftErrors = {
+      trim: getErrorForTrim(trimStart, trimEnd),
+      audioPreset: getErrorForAudioPreset(audioPreset),
+    }
+    if (Object.values(actionData.draftErrors).some(err => err !== null)) {
+      return json(actionData, 400)
+    }
+
+    await updateEpisodeDraft(job.id, {
+      audioPreset: getNonNull({audioPreset}).audioPreset,
+      responseTrim: getTrimFromFormValues(trimStart, trimEnd),
+    })
+  } else if (actionId === actionIds.discardDraft) {
+    await discardEpisodeDraft(job.id)
+  } else {
+    // this takes a while, so it happens in the background. The page shows
+    // the progress of the job.
+    await publishEpisodeDraft(job.id, {
+      callerNote: getNoteFromFormValue(form.get('note')),
+    })
+  }
+  return redirect(new URL(request.url).pathname)
+}
 
 export const action: KCDAction<{callId: string}> = async ({
   request,
   params,
 }) => {
-  return requireAdminUser(request, async () => {
+  return requirePermission(request, 'triageCalls', async user => {
+    const actionData: ActionData = {fields: {}, errors: {}}
+    const forbiddenError = `You don't have permission to do that.`
     if (request.method === 'DELETE') {
-      await prisma.call.delete({where: {id: params.callId}})
+      if (!hasPermission(user, 'deleteCalls')) {
+        actionData.errors.generalError = forbiddenError
+        return json(actionData, 403)
+      }
+      const job = await getLatestPublishCallJob(params.callId)
+      if (job?.status === 'DRAFT') await discardEpisodeDraft(job.id)
+      await deleteCall(params.callId)
       return redirect('/calls/admin')
     }
     const call = await prisma.call.findFirst({
       where: {id: params.callId},
-      include: {user: true},
+      select: {id: true},
     })
     if (!call) {
       // TODO: display an error message or something...
       return redirect('/calls/admin')
     }
-    const actionData: ActionData = {fields: {}, errors: {}}
     try {
       const requestText = await request.text()
       const form = new URLSearchParams(requestText)
 
+      const actionId = form.get('actionId')
+      // moderators can decline calls, but everything else here is part of
+      // answering them
+      const permission =
+        actionId === actionIds.declineCall ? 'triageCalls' : 'publishCalls'
+      if (!hasPermission(user, permission)) {
+        actionData.errors.generalError = forbiddenError
+        return json(actionData, 403)
+      }
+      if (actionId === actionIds.retryPublish) {
+        const job = await getLatestPublishCallJob(call.id)
+        if (job) await retryPublishCallJob(job.id)
+        return redirect(new URL(request.url).pathname)
+      }
+      if (actionId && draftActionIds.includes(actionId)) {
+        return await handleDraftAction(request, {
+          callId: call.id,
+          actionId,
+          form,
+          actionData,
+        })
+      }
+      if (actionId === actionIds.declineCall) {
+        const job = await getLatestPublishCallJob(call.id)
+        if (job?.status === 'DRAFT') await discardEpisodeDraft(job.id)
+        await declineCall({
+          callId: call.id,
+          note: getNoteFromFormValue(form.get('note')),
+          domainUrl: getDomainUrl(request),
+        })
+        return redirect(new URL(request.url).pathname)
+      }
+
       const formData = {
         audio: form.get('audio'),
         title: form.get('title'),
@@ -63,7 +212,9 @@ export const action: KCDAction<{callId: string}> = async ({
       }
 
       actionData.errors = {
-        audio: getErrorForAudio(formData.audio),
+        audio:
+          getErrorForAudio(formData.audio) ??
+          getErrorForAudioEdit(form.get('edit')),
         title: getErrorForTitle(formData.title),
         description: getErrorForDescription(formData.description),
         keywords: getErrorForKeywords(formData.keywords),
@@ -80,24 +231,19 @@ export const action: KCDAction<{callId: string}> = async ({
         keywords,
       } = getNonNull(formData)
 
-      const episodeAudio = await createEpisodeAudio(call.base64, response)
-      await createEpisode({
-        audio: episodeAudio,
+      // stitch the episode together so Kent can listen to it before it's
+      // published
+      await createEpisodeDraft({
+        callId: call.id,
+        response,
         title,
-        summary: `${call.user.firstName} asked this on ${format(
-          call.createdAt,
-          'yyyy-MM-dd',
-        )}`,
         description,
-        imageUrl: getAvatarForUser(call.user, {size: 800}).src,
         keywords,
         domainUrl: getDomainUrl(request),
-      })
-      await prisma.call.delete({
-        where: {id: call.id},
+        responseEdit: parseAudioEdit(form.get('edit')) ?? noAudioEdit,
       })
 
-      return redirect('/calls')
+      return redirect(new URL(request.url).pathname)
     } catch (error: unknown) {
       actionData.errors.generalError = getErrorMessage(error)
       return json(actionData, 500)
@@ -106,74 +252,341 @@ export const action: KCDAction<{callId: string}> = async ({
 }
 
 type LoaderData = {
-  call: Call | null
+  call: Omit<Call, 'base64'> | null
+  job: Await<ReturnType<typeof getLatestPublishCallJob>>
+  maxPublishAttempts: number
 }
 
 export const loader: KCDLoader<{callId: string}> = async ({
   request,
   params,
 }) => {
-  return requireAdminUser(request, async () => {
-    const call = await prisma.call.findFirst({where: {id: params.callId}})
-    if (!call) {
+  return requirePermission(request, 'triageCalls', async () => {
+    const [call, job] = await Promise.all([
+      prisma.call.findFirst({
+        where: {id: params.callId},
+        // the recording is served separately, see getCallRecordingUrl
+        select: {
+          id: true,
+          createdAt: true,
+          updatedAt: true,
+          title: true,
+          description: true,
+          keywords: true,
+          userId: true,
+          audioKey: true,
+          audioContentType: true,
+          audioSize: true,
+          audioDuration: true,
+          status: true,
+          statusNote: true,
+          episodePath: true,
+        },
+      }),
+      getLatestPublishCallJob(params.callId),
+    ])
+    // the caller can delete their call while it's being published, but we
+    // still want to show how the job went.
+    if (!call && !job) {
       console.error(`No call found at ${params.callId}`)
       // TODO: add message
       return redirect('/calls/admin')
     }
-    const data: LoaderData = {call}
+    const data: LoaderData = {
+      call,
+      job,
+      maxPublishAttempts: maxPublishCallJobAttempts,
+    }
     return json(data)
   })
 }
 
-function CallListing({call}: {call: Call}) {
-  const [audioURL, setAudioURL] = React.useState<string | null>(null)
+function PublishStatus({
+  job,
+  maxAttempts,
+}: {
+  job: NonNullable<LoaderData['job']>
+  maxAttempts: number
+}) {
+  const navigate = useNavigate()
+  const user = useUser()
+  const isInProgress = job.status === 'QUEUED' || job.status === 'RUNNING'
+  // keep the progress up to date while the job is still going
   React.useEffect(() => {
-    const audio = new Audio(call.base64)
-    setAudioURL(audio.src)
-  }, [call.base64])
+    if (!isInProgress) return
+    const timeout = setTimeout(() => navigate('.', {replace: true}), 5000)
+    return () => clearTimeout(timeout)
+  }, [isInProgress, job, navigate])
+
+  if (job.status === 'SUCCEEDED') {
+    return (
+      <section className="mb-12">
+        <H3>Published!</H3>
+        {job.episodePath ? (
+          <Paragraph>
+            <Link to={job.episodePath}>Check out the episode</Link>
+          </Paragraph>
+        ) : null}
+      </section>
+    )
+  }
 
+  return (
+    <section className="mb-12">
+      <H3>
+        {job.status === 'FAILED'
+          ? 'Publishing failed'
+          : job.status === 'RUNNING'
+          ? `${job.progress ?? 'Publishing'}...`
+          : 'Waiting to publish...'}
+      </H3>
+      <Paragraph>
+        {`Attempt ${job.attempts} of ${maxAttempts}`}
+        {job.status === 'QUEUED' && job.attempts > 0
+          ? `. Trying again ${formatDistanceToNow(new Date(job.runAt), {
+              addSuffix: true,
+            })}`
+          : null}
+      </Paragraph>
+      {job.lastError ? <ErrorPanel>{job.lastError}</ErrorPanel> : null}
+      {job.status === 'FAILED' && hasPermission(user, 'publishCalls') ? (
+        <Form method="post" className="mt-8">
+          <input type="hidden" name="actionId" value={actionIds.retryPublish} />
+          <Button type="submit">Try again</Button>
+        </Form>
+      ) : null}
+    </section>
+  )
+}
+
+function EpisodeDraft({
+  job,
+  errors,
+}: {
+  job: NonNullable<LoaderData['job']>
+  errors?: DraftErrors
+}) {
+  const playbackRef = React.useRef<HTMLAudioElement | null>(null)
+  const transition = useTransition()
+  const [trimValues, setTrimValues] = React.useState({
+    start: String(job.responseTrimStart),
+    end: job.responseTrimEnd === null ? '' : String(job.responseTrimEnd),
+  })
+  const trim: AudioTrim | undefined = getErrorForTrim(
+    trimValues.start,
+    trimValues.end,
+  )
+    ? undefined
+    : getTrimFromFormValues(trimValues.start, trimValues.end)
+
+  return (
+    <section className="mb-12">
+      <H3>Preview the episode</H3>
+      <Paragraph className="mb-8">{job.title}</Paragraph>
+      <div className="mb-4">
+        <audio
+          ref={playbackRef}
+          src={getEpisodeDraftAudioUrl(job, 'episode')}
+          controls
+        />
+      </div>
+      <AudioWaveform
+        src={getEpisodeDraftAudioUrl(job, 'episode')}
+        playbackRef={playbackRef}
+      />
+
+      <Form method="post">
+        <input type="hidden" name="actionId" value={actionIds.updateDraft} />
+        <input type="hidden" name="jobId" value={job.id} />
+        <fieldset className="mt-12 mb-8">
+          <legend>
+            <H6 as="span">Audio processing</H6>
+          </legend>
+          {errors?.audioPreset ? (
+            <InputError id="audio-preset-error">
+              {errors.audioPreset}
+            </InputError>
+          ) : null}
+          {audioPresets.map(preset => (
+            <label key={preset.id} className="flex items-baseline gap-4 mt-4">
+              <input
+                type="radio"
+                name="audioPreset"
+                value={preset.id}
+                defaultChecked={preset.id === job.audioPreset}
+              />
+              <span>
+                <strong>{preset.label}</strong>: {preset.description}
+              </span>
+            </label>
+          ))}
+        </fieldset>
+
+        <H6 as="h4" className="mb-4">
+          Trim your response
+        </H6>
+        <AudioWaveform
+          src={getEpisodeDraftAudioUrl(job, 'response')}
+          edit={trim}
+        />
+        <div className="flex flex-wrap gap-8">
+          <Field
+            name="trimStart"
+            label="Start (seconds)"
+            type="number"
+            min="0"
+            step="0.1"
+            defaultValue={trimValues.start}
+            error={errors?.trim}
+            onChange={event =>
+              setTrimValues(values => ({...values, start: event.target.value}))
+            }
+          />
+          <Field
+            name="trimEnd"
+            label="End (seconds)"
+            type="number"
+            min="0"
+            step="0.1"
+            defaultValue={trimValues.end}
+            description="Leave empty to keep the rest"
+            onChange={event =>
+              setTrimValues(values => ({...values, end: event.target.value}))
+            }
+          />
+        </div>
+        <Button type="submit" size="medium" variant="secondary">
+          Update preview
+        </Button>
+      </Form>
+
+      {transition.state === 'submitting' ? (
+        <Paragraph className="mt-8">Stitching the episode...</Paragraph>
+      ) : null}
+
+      <div className="flex flex-wrap gap-4 mt-12">
+        <Form method="post" className="w-full">
+          <input type="hidden" name="actionId" value={actionIds.publishDraft} />
+          <input type="hidden" name="jobId" value={job.id} />
+          <Field
+            name="note"
+            label="Note to the caller"
+            type="textarea"
+            description="Optional. It's in the email they get once the episode is published."
+          />
+          <Button type="submit" size="medium">
+            Publish
+          </Button>
+        </Form>
+        <Form method="post">
+          <input type="hidden" name="actionId" value={actionIds.discardDraft} />
+          <input type="hidden" name="jobId" value={job.id} />
+          <Button type="submit" size="medium" variant="secondary">
+            Re-record
+          </Button>
+        </Form>
+      </div>
+    </section>
+  )
+}
+
+function CallListing({call}: {call: NonNullable<LoaderData['call']>}) {
+  const user = useUser()
   return (
     <section>
       <strong>{call.title}</strong>
       <p>{call.description}</p>
-      <div>{audioURL ? <audio src={audioURL} controls /> : null}</div>
-      <Form method="delete">
-        <input type="hidden" name="callId" value={call.id} />
-        <button type="submit">Delete</button>
-      </Form>
+      <p>{`Status: ${callStatusLabels[call.status]}`}</p>
+      {call.statusNote ? <p>{`Note: ${call.statusNote}`}</p> : null}
+      {call.episodePath ? (
+        <p>
+          <Link to={call.episodePath}>Check out the episode</Link>
+        </p>
+      ) : null}
+      <div>
+        <audio src={getCallRecordingUrl(call)} controls />
+      </div>
+      {isCallClosed(call) ? null : (
+        <Form method="post">
+          <input type="hidden" name="actionId" value={actionIds.declineCall} />
+          <Field
+            name="note"
+            label="Why not answer it?"
+            type="textarea"
+            description="Optional. It's in the email the caller gets."
+          />
+          <button type="submit">Decline</button>
+        </Form>
+      )}
+      {hasPermission(user, 'deleteCalls') ? (
+        <Form method="delete">
+          <input type="hidden" name="callId" value={call.id} />
+          <button type="submit">Delete</button>
+        </Form>
+      ) : null}
     </section>
   )
 }
 
 export default function RecordingDetailScreen() {
-  const [responseAudio, setResponseAudio] = React.useState<Blob | null>(null)
+  const [response, setResponse] = React.useState<{
+    audio: Blob
+    edit: AudioEdit
+  } | null>(null)
   const data = useLoaderData<LoaderData>()
   const actionData = useActionData<ActionData>()
+  const user = useUser()
+  const isDraft = data.job?.status === 'DRAFT'
+  // the recording has been stitched into the draft, so if Kent throws the draft
+  // away he'll want to start over with a new one.
+  React.useEffect(() => {
+    if (isDraft) setResponse(null)
+  }, [isDraft])
 
   if (!data.call) {
     return (
       <div>
-        Oh no... No call by that ID. Too bad. <Link to="..">See all calls</Link>
+        {data.job && !isDraft ? (
+          <PublishStatus job={data.job} maxAttempts={data.maxPublishAttempts} />
+        ) : null}
+        <Link to="..">See all calls</Link>
       </div>
     )
   }
+  // while the episode is being previewed or published we hang onto the
+  // response, so there's no need to record another one unless publishing failed.
+  const isPublishing =
+    data.job?.status === 'QUEUED' || data.job?.status === 'RUNNING'
+  const canPublish = hasPermission(user, 'publishCalls')
+  const canRespond = canPublish && !isPublishing && !isCallClosed(data.call)
   return (
     <div>
+      {data.job && !isDraft ? (
+        <PublishStatus job={data.job} maxAttempts={data.maxPublishAttempts} />
+      ) : null}
       <CallListing call={data.call} />
-      <strong>Record your response:</strong>
-      {responseAudio ? (
-        <RecordingForm
-          audio={responseAudio}
-          data={{
-            fields: {...data.call, ...actionData?.fields},
-            errors: {...actionData?.errors},
-          }}
-        />
-      ) : (
-        <CallRecorder
-          onRecordingComplete={recording => setResponseAudio(recording)}
-        />
-      )}
+      {data.job && isDraft && canPublish ? (
+        <EpisodeDraft job={data.job} errors={actionData?.draftErrors} />
+      ) : canRespond ? (
+        <>
+          <strong>Record your response:</strong>
+          {response ? (
+            <RecordingForm
+              audio={response.audio}
+              edit={response.edit}
+              submitLabel="Preview episode"
+              data={{
+                fields: {...data.call, ...actionData?.fields},
+                errors: {...actionData?.errors},
+              }}
+            />
+          ) : (
+            <CallRecorder
+              onRecordingComplete={(audio, edit) => setResponse({audio, edit})}
+            />
+          )}
+        </>
+      ) : null}
     </div>
   )
 }
@@ -12,11 +12,12 @@ import {Grid} from '~/components/grid'
 import {H2, Paragraph} from '~/components/typography'
 import {BackLink} from '~/components/arrow-button'
 import {reuseUsefulLoaderHeaders} from '~/utils/misc'
+import {callStatusLabels} from '~/utils/call-kent'
 
 function getCalls(userId: string) {
   return prisma.call.findMany({
     where: {userId},
-    select: {id: true, title: true},
+    select: {id: true, title: true, status: true},
   })
 }
 
@@ -74,10 +75,12 @@ function Record({
   active,
   title,
   slug,
+  status,
 }: {
   slug: string
   active: boolean
   title: string
+  status?: string
 }) {
   return (
     <Grid nested className="border-b border-gray-200 dark:border-gray-600">
@@ -87,6 +90,9 @@ function Record({
       >
         <div className="bg-secondary absolute -inset-px group-hover:block group-focus:block hidden -mx-6 rounded-lg" />
         <span className="relative">{title}</span>
+        {status ? (
+          <span className="text-secondary relative text-lg">{status}</span>
+        ) : null}
       </Link>
       <div className="col-span-full">
         <MaybeOutlet open={active} />
@@ -145,6 +151,7 @@ export default function RecordScreen() {
                     slug={`./${call.id}`}
                     active={activeSlug === call.id}
                     title={call.title}
+                    status={callStatusLabels[call.status]}
                   />
                 </li>
               ))}
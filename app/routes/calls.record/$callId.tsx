@@ -1,10 +1,12 @@
 import * as React from 'react'
 import type {HeadersFunction} from 'remix'
-import {json, redirect, useLoaderData, Form} from 'remix'
+import {json, redirect, useLoaderData, Form, Link} from 'remix'
 import type {Call, KCDLoader, KCDAction, KCDHandle} from '~/types'
 import {requireUser} from '~/utils/session.server'
 import {prisma} from '~/utils/prisma.server'
-import {Paragraph} from '~/components/typography'
+import {deleteCall} from '~/utils/call-recordings.server'
+import {callStatusLabels, getCallRecordingUrl} from '~/utils/call-kent'
+import {H6, Paragraph} from '~/components/typography'
 import {reuseUsefulLoaderHeaders} from '~/utils/misc'
 
 export const handle: KCDHandle = {
@@ -32,12 +34,17 @@ export const action: KCDAction<{callId: string}> = async ({
       )
       return redirect('/calls/record')
     }
-    await prisma.call.delete({where: {id: params.callId}})
+    await deleteCall(call.id)
     return redirect('/calls/record')
   })
 }
 
-type LoaderData = {call: Call}
+type LoaderData = {
+  call: Pick<
+    Call,
+    'id' | 'description' | 'status' | 'statusNote' | 'episodePath'
+  >
+}
 
 export const loader: KCDLoader<{callId: string}> = async ({
   params,
@@ -48,6 +55,13 @@ export const loader: KCDLoader<{callId: string}> = async ({
       // NOTE: this is how we ensure the user is the owner of the call
       // and is therefore authorized to delete it.
       where: {userId: user.id, id: params.callId},
+      select: {
+        id: true,
+        description: true,
+        status: true,
+        statusNote: true,
+        episodePath: true,
+      },
     })
     if (!call) {
       // TODO: handle 404 instead of redirecting
@@ -56,7 +70,7 @@ export const loader: KCDLoader<{callId: string}> = async ({
     const data: LoaderData = {call}
     return json(data, {
       headers: {
-        'Cache-Control': 'public, max-age=3600',
+        'Cache-Control': 'private, max-age=3600',
       },
     })
   })
@@ -66,17 +80,28 @@ export const headers: HeadersFunction = reuseUsefulLoaderHeaders
 
 export default function Screen() {
   const data = useLoaderData<LoaderData>()
-  const [audioURL, setAudioURL] = React.useState<string | null>(null)
-  React.useEffect(() => {
-    const audio = new Audio(data.call.base64)
-    setAudioURL(audio.src)
-  }, [data.call.base64])
 
   return (
     <section>
       <Paragraph className="mb-8">{data.call.description}</Paragraph>
+      <div className="mb-8">
+        <H6 as="p">{callStatusLabels[data.call.status]}</H6>
+        {data.call.episodePath ? (
+          <Paragraph>
+            {`Kent answered your call! `}
+            <Link to={data.call.episodePath} className="underlined">
+              Listen to the episode
+            </Link>
+          </Paragraph>
+        ) : null}
+        {data.call.statusNote ? (
+          <Paragraph>{`A note from Kent: ${data.call.statusNote}`}</Paragraph>
+        ) : null}
+      </div>
       <div className="flex items-center justify-between">
-        <div>{audioURL ? <audio src={audioURL} controls /> : null}</div>
+        <div>
+          <audio src={getCallRecordingUrl(data.call)} controls />
+        </div>
         <Form method="post">
           <input
             type="hidden"
@@ -10,8 +10,16 @@ import {
 import {requireUser} from '~/utils/session.server'
 import {prisma} from '~/utils/prisma.server'
 import {getErrorMessage, getNonNull} from '~/utils/misc'
+import {saveCallRecording} from '~/utils/call-recordings.server'
+import type {RateLimit} from '~/utils/rate-limit.server'
+import {rateLimit} from '~/utils/rate-limit.server'
+import type {AudioEdit} from '~/utils/call-kent'
 import {
+  getDurationFromFormValue,
   getErrorForAudio,
+  getErrorForAudioEdit,
+  noAudioEdit,
+  parseAudioEdit,
   getErrorForTitle,
   getErrorForDescription,
   getErrorForKeywords,
@@ -21,10 +29,23 @@ export const handle: KCDHandle = {
   getSitemapEntries: () => null,
 }
 
+// recordings are big, so we check this before reading them
+const callRateLimit: RateLimit = {
+  name: 'call-submission',
+  perIp: {max: 10, window: 1000 * 60 * 60 * 24},
+  perIdentifier: {max: 5, window: 1000 * 60 * 60 * 24},
+}
+
 export const action: ActionFunction = async ({request}) => {
   return requireUser(request, async user => {
     const actionData: ActionData = {fields: {}, errors: {}}
     try {
+      const rateLimited = await rateLimit(request, callRateLimit, user.id)
+      if (rateLimited) {
+        actionData.errors.generalError = rateLimited.message
+        return json(actionData, {status: 429, headers: rateLimited.headers})
+      }
+
       const requestText = await request.text()
       const form = new URLSearchParams(requestText)
 
@@ -41,7 +62,9 @@ export const action: ActionFunction = async ({request}) => {
       }
 
       actionData.errors = {
-        audio: getErrorForAudio(formData.audio),
+        audio:
+          getErrorForAudio(formData.audio) ??
+          getErrorForAudioEdit(form.get('edit')),
         title: getErrorForTitle(formData.title),
         description: getErrorForDescription(formData.description),
         keywords: getErrorForKeywords(formData.keywords),
@@ -53,12 +76,16 @@ export const action: ActionFunction = async ({request}) => {
 
       const {audio, title, description, keywords} = getNonNull(formData)
 
+      const recording = await saveCallRecording(audio, {
+        duration: getDurationFromFormValue(form.get('duration')),
+        edit: parseAudioEdit(form.get('edit')) ?? noAudioEdit,
+      })
       const call = {
         title,
         description,
         keywords,
         userId: user.id,
-        base64: audio,
+        ...recording,
       }
       const createdCall = await prisma.call.create({data: call})
       return redirect(`/calls/record/${createdCall.id}`)
@@ -73,13 +100,22 @@ type ActionData = RecordingFormData
 
 export default function RecordScreen() {
   const actionData = useActionData<ActionData>()
-  const [audio, setAudio] = React.useState<Blob | null>(null)
+  const [recording, setRecording] = React.useState<{
+    audio: Blob
+    edit: AudioEdit
+  } | null>(null)
   return (
     <div>
-      {audio ? (
-        <RecordingForm audio={audio} data={actionData} />
+      {recording ? (
+        <RecordingForm
+          audio={recording.audio}
+          edit={recording.edit}
+          data={actionData}
+        />
       ) : (
-        <CallRecorder onRecordingComplete={recording => setAudio(recording)} />
+        <CallRecorder
+          onRecordingComplete={(audio, edit) => setRecording({audio, edit})}
+        />
       )}
     </div>
   )
@@ -1,12 +1,15 @@
 import * as React from 'react'
 import {useParams} from 'react-router-dom'
-import {MetaFunction, redirect} from 'remix'
-import type {KCDHandle, KCDLoader} from '~/types'
+import {MetaFunction, json, redirect, useLoaderData} from 'remix'
+import clsx from 'clsx'
+import type {KCDHandle, KCDLoader, TranscriptSegment} from '~/types'
 import {useCallKentEpisodes} from '~/utils/providers'
 import {getEpisodes} from '~/utils/transistor.server'
+import {getTranscript} from '~/utils/transcription.server'
 import {Themed} from '~/utils/theme-provider'
 import {getEpisodeFromParams, getEpisodePath, Params} from '~/utils/call-kent'
-import type {LoaderData} from '../calls'
+import {formatTime} from '~/utils/misc'
+import type {LoaderData as CallsLoaderData} from '../calls'
 
 export const handle: KCDHandle = {
   id: 'call-player',
@@ -25,7 +28,7 @@ export const handle: KCDHandle = {
 }
 
 export const meta: MetaFunction = ({parentsData, params}) => {
-  const callsData = parentsData['routes/calls'] as LoaderData | undefined
+  const callsData = parentsData['routes/calls'] as CallsLoaderData | undefined
   const metadata = {}
   if (!callsData) {
     console.error(
@@ -67,6 +70,8 @@ export const meta: MetaFunction = ({parentsData, params}) => {
   }
 }
 
+type LoaderData = {transcript: Array<TranscriptSegment> | null}
+
 export const loader: KCDLoader<Params> = async ({params, request}) => {
   const episodes = await getEpisodes({request})
   const episode = getEpisodeFromParams(episodes, params)
@@ -85,13 +90,73 @@ export const loader: KCDLoader<Params> = async ({params, request}) => {
   // we already load all the episodes in the parent route so it would be
   // wasteful to send it here. The parent sticks all the episodes in context
   // so we just use it in the component.
-  // This loader is only here for the 404 case we need to handle.
-  return null
+  // The transcript is only needed for this episode, so that's loaded here.
+  const data: LoaderData = {transcript: await getTranscript(episode.id)}
+  return json(data, {
+    headers: {
+      'Cache-Control': 'private, max-age=3600',
+    },
+  })
+}
+
+function Transcript({
+  mediaUrl,
+  transcript,
+}: {
+  mediaUrl: string
+  transcript: Array<TranscriptSegment>
+}) {
+  const playbackRef = React.useRef<HTMLAudioElement | null>(null)
+  const [currentTime, setCurrentTime] = React.useState(0)
+
+  function seek(segment: TranscriptSegment) {
+    const playback = playbackRef.current
+    if (!playback) return
+    playback.currentTime = segment.start
+    void playback.play()
+  }
+
+  return (
+    <div className="bg-secondary mt-8 p-10 rounded-lg">
+      <h4 className="text-primary inline-flex items-center mb-8 text-xl font-medium">
+        Transcript
+      </h4>
+      <audio
+        ref={playbackRef}
+        src={mediaUrl}
+        controls
+        preload="none"
+        className="mb-8 w-full"
+        onTimeUpdate={event => setCurrentTime(event.currentTarget.currentTime)}
+      />
+      <ol className="space-y-2">
+        {transcript.map(segment => (
+          <li key={segment.start}>
+            <button
+              type="button"
+              onClick={() => seek(segment)}
+              className={clsx(
+                'text-secondary flex gap-4 text-left hover:text-black dark:hover:text-white focus:outline-none',
+                {
+                  'text-primary':
+                    currentTime >= segment.start && currentTime < segment.end,
+                },
+              )}
+            >
+              <span className="font-mono">{formatTime(segment.start)}</span>
+              <span>{segment.text}</span>
+            </button>
+          </li>
+        ))}
+      </ol>
+    </div>
+  )
 }
 
 export default function Screen() {
   const params = useParams() as Params
   const episodes = useCallKentEpisodes()
+  const data = useLoaderData<LoaderData>()
   const episode = getEpisodeFromParams(episodes, params)
 
   if (!episode) {
@@ -99,21 +164,26 @@ export default function Screen() {
   }
 
   return (
-    <Themed
-      dark={
-        <div
-          dangerouslySetInnerHTML={{
-            __html: episode.embedHtmlDark,
-          }}
-        />
-      }
-      light={
-        <div
-          dangerouslySetInnerHTML={{
-            __html: episode.embedHtml,
-          }}
-        />
-      }
-    />
+    <>
+      <Themed
+        dark={
+          <div
+            dangerouslySetInnerHTML={{
+              __html: episode.embedHtmlDark,
+            }}
+          />
+        }
+        light={
+          <div
+            dangerouslySetInnerHTML={{
+              __html: episode.embedHtml,
+            }}
+          />
+        }
+      />
+      {data.transcript?.length ? (
+        <Transcript mediaUrl={episode.mediaUrl} transcript={data.transcript} />
+      ) : null}
+    </>
   )
 }
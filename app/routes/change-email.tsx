@@ -0,0 +1,57 @@
+import * as React from 'react'
+import type {LoaderFunction} from 'remix'
+import {json, useLoaderData} from 'remix'
+import type {KCDHandle} from '~/types'
+import {confirmEmailChange} from '~/utils/email-change.server'
+import {getReplayResponse} from '~/utils/prisma.server'
+import {getErrorMessage} from '~/utils/misc'
+import {HeroSection} from '~/components/sections/hero-section'
+import {ButtonLink} from '~/components/button'
+import {images} from '~/images'
+
+export const handle: KCDHandle = {
+  getSitemapEntries: () => null,
+}
+
+type LoaderData =
+  | {email: string; error?: never}
+  | {email?: never; error: string}
+
+export const loader: LoaderFunction = async ({request}) => {
+  try {
+    const user = await confirmEmailChange(request.url)
+    const data: LoaderData = {email: user.email}
+    return json(data)
+  } catch (error: unknown) {
+    // the email can only be changed in the primary region
+    const replayResponse = getReplayResponse(request, getErrorMessage(error))
+    if (replayResponse) return replayResponse
+
+    const data: LoaderData = {error: getErrorMessage(error)}
+    return json(data, 400)
+  }
+}
+
+export default function ChangeEmail() {
+  const data = useLoaderData<LoaderData>()
+  return (
+    <main>
+      <HeroSection
+        imageBuilder={images.skis}
+        title={
+          data.email
+            ? 'Your email has been changed.'
+            : `We couldn't change your email.`
+        }
+        subtitle={
+          data.email ? `From now on, sign in with ${data.email}.` : data.error
+        }
+        action={
+          <ButtonLink to="/me" variant="primary">
+            Go to your account
+          </ButtonLink>
+        }
+      />
+    </main>
+  )
+}
@@ -1,6 +1,6 @@
 import * as React from 'react'
 import type {ActionFunction} from 'remix'
-import {redirect} from 'remix'
+import {json, redirect} from 'remix'
 import {sendEmail} from '~/utils/send-email.server'
 import {Button} from '~/components/button'
 import {ButtonGroup} from '~/components/form-elements'
@@ -12,6 +12,14 @@ import {
   getErrorForSubject,
 } from '~/utils/contact'
 import {handleFormSubmission} from '~/utils/actions.server'
+import type {RateLimit} from '~/utils/rate-limit.server'
+import {rateLimit} from '~/utils/rate-limit.server'
+
+const contactRateLimit: RateLimit = {
+  name: 'contact',
+  perIp: {max: 5, window: 1000 * 60 * 60},
+  perIdentifier: {max: 3, window: 1000 * 60 * 60},
+}
 
 export const action: ActionFunction = async ({request}) => {
   return handleFormSubmission<ActionData>({
@@ -25,6 +33,15 @@ export const action: ActionFunction = async ({request}) => {
     handleFormValues: async formData => {
       const {name, email, subject, body} = formData
 
+      const rateLimited = await rateLimit(request, contactRateLimit, email)
+      if (rateLimited) {
+        const actionData: ActionData = {
+          fields: formData,
+          errors: {generalError: rateLimited.message},
+        }
+        return json(actionData, {status: 429, headers: rateLimited.headers})
+      }
+
       const sender = `"${name}" <${email}>`
 
       await sendEmail({
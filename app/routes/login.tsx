@@ -1,13 +1,24 @@
 import * as React from 'react'
 import type {ActionFunction, HeadersFunction, LoaderFunction} from 'remix'
-import {Headers, Form, useLoaderData, json, redirect} from 'remix'
+import {Headers, Form, useLoaderData, useSubmit, json, redirect} from 'remix'
 import {
   getDomainUrl,
   getErrorMessage,
   reuseUsefulLoaderHeaders,
 } from '~/utils/misc'
-import {sendToken, getUser} from '~/utils/session.server'
+import {
+  sendToken,
+  getUser,
+  getSession,
+  getUserSessionFromMagicLinkCode,
+} from '~/utils/session.server'
+import {getReplayResponse} from '~/utils/prisma.server'
+import type {RateLimit} from '~/utils/rate-limit.server'
+import {rateLimit} from '~/utils/rate-limit.server'
 import {getLoginInfoSession} from '~/utils/login.server'
+import {authenticateWithPasskey, parseCredential} from '~/utils/passkeys.server'
+import type {PasskeyAuthenticationCredential} from '~/utils/passkeys'
+import {getPasskey, isPasskeySupported} from '~/utils/passkeys'
 import {images} from '~/images'
 import {Paragraph} from '~/components/typography'
 import {Button} from '~/components/button'
@@ -16,6 +27,7 @@ import {HeroSection} from '~/components/sections/hero-section'
 
 type LoaderData = {
   email?: string
+  codeSent: boolean
   error?: string
   message?: string
 }
@@ -28,6 +40,7 @@ export const loader: LoaderFunction = async ({request}) => {
 
   const data: LoaderData = {
     email: loginSession.getEmail(),
+    codeSent: loginSession.getCodeSent(),
     message: loginSession.getMessage(),
     error: loginSession.getError(),
   }
@@ -44,10 +57,76 @@ export const headers: HeadersFunction = reuseUsefulLoaderHeaders
 
 const EMAIL_SENT_MESSAGE = 'Email sent.'
 
+// every login link is an email we pay to send
+const loginEmailRateLimit: RateLimit = {
+  name: 'login-email',
+  perIp: {max: 10, window: 1000 * 60 * 60},
+  perIdentifier: {max: 3, window: 1000 * 60 * 15},
+}
+
 export const action: ActionFunction = async ({request}) => {
   const params = new URLSearchParams(await request.text())
   const loginSession = await getLoginInfoSession(request)
 
+  const credential = parseCredential<PasskeyAuthenticationCredential>(
+    params.get('passkey'),
+  )
+  if (credential) {
+    try {
+      const user = await authenticateWithPasskey({request, credential})
+      const session = await getSession(request)
+      await session.singIn(user)
+      loginSession.clean()
+      const responseHeaders = new Headers()
+      await loginSession.getHeaders(responseHeaders)
+      await session.getHeaders(responseHeaders)
+      return redirect('/me', {headers: responseHeaders})
+    } catch (e: unknown) {
+      // signing in with a passkey can only be done in the primary region
+      const replayResponse = getReplayResponse(request, getErrorMessage(e))
+      if (replayResponse) return replayResponse
+
+      loginSession.flashError(getErrorMessage(e))
+      return redirect(`/login`, {
+        status: 400,
+        headers: await loginSession.getHeaders(),
+      })
+    }
+  }
+
+  const code = params.get('code')
+  const codeEmailAddress = loginSession.getEmail()
+  if (code !== null && codeEmailAddress) {
+    try {
+      const {session} = await getUserSessionFromMagicLinkCode(request, {
+        emailAddress: codeEmailAddress,
+        code,
+      })
+      const responseHeaders = new Headers()
+      if (session) {
+        loginSession.clean()
+        await loginSession.getHeaders(responseHeaders)
+        await session.getHeaders(responseHeaders)
+        return redirect('/me', {headers: responseHeaders})
+      } else {
+        loginSession.setVerifiedEmail(codeEmailAddress)
+        return redirect('/signup', {
+          headers: await loginSession.getHeaders(responseHeaders),
+        })
+      }
+    } catch (e: unknown) {
+      // checking the code can only be done in the primary region
+      const replayResponse = getReplayResponse(request, getErrorMessage(e))
+      if (replayResponse) return replayResponse
+
+      loginSession.flashError(getErrorMessage(e))
+      return redirect(`/login`, {
+        status: 400,
+        headers: await loginSession.getHeaders(),
+      })
+    }
+  }
+
   const emailAddress = params.get('email')
   if (emailAddress) loginSession.setEmail(emailAddress)
 
@@ -59,14 +138,32 @@ export const action: ActionFunction = async ({request}) => {
     })
   }
 
+  const rateLimited = await rateLimit(
+    request,
+    loginEmailRateLimit,
+    emailAddress,
+  )
+  if (rateLimited) {
+    loginSession.flashError(rateLimited.message)
+    return redirect(`/login`, {
+      status: 429,
+      headers: await loginSession.getHeaders(new Headers(rateLimited.headers)),
+    })
+  }
+
   try {
     const domainUrl = getDomainUrl(request)
     await sendToken({emailAddress, domainUrl})
+    loginSession.setCodeSent()
     loginSession.flashMessage(EMAIL_SENT_MESSAGE)
     return redirect(`/login`, {
       headers: await loginSession.getHeaders(),
     })
   } catch (e: unknown) {
+    // magic links can only be saved in the primary region
+    const replayResponse = getReplayResponse(request, getErrorMessage(e))
+    if (replayResponse) return replayResponse
+
     loginSession.flashError(getErrorMessage(e))
     return redirect(`/login`, {
       status: 400,
@@ -75,6 +172,80 @@ export const action: ActionFunction = async ({request}) => {
   }
 }
 
+function CodeLogin({email}: {email: string}) {
+  return (
+    <Form action="/login" method="post" className="mb-10 lg:mb-12">
+      <div className="mb-6">
+        <div className="mb-4">
+          <Label htmlFor="code">Or enter the code from the email</Label>
+        </div>
+        <Input
+          id="code"
+          name="code"
+          type="text"
+          inputMode="numeric"
+          pattern="[0-9 ]*"
+          autoComplete="one-time-code"
+          required
+          placeholder="123456"
+          aria-describedby="code-description"
+        />
+        <p
+          id="code-description"
+          className="dark:text-blueGray-500 mt-4 text-gray-500 text-lg"
+        >
+          {`We sent it to ${email} along with the magic link.`}
+        </p>
+      </div>
+      <Button type="submit" variant="secondary">
+        Sign in with the code
+      </Button>
+    </Form>
+  )
+}
+
+function PasskeyLogin() {
+  const submit = useSubmit()
+  const [isSupported, setIsSupported] = React.useState(false)
+  const [error, setError] = React.useState<string | null>(null)
+  // WebAuthn support can only be checked in the browser
+  React.useEffect(() => setIsSupported(isPasskeySupported()), [])
+
+  // without passkeys there's always the magic link
+  if (!isSupported) return null
+
+  async function handleSubmit(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault()
+    const form = new FormData(event.currentTarget)
+    setError(null)
+    try {
+      form.append('passkey', JSON.stringify(await getPasskey()))
+    } catch {
+      setError(
+        `We couldn't use a passkey. Email yourself a login link instead.`,
+      )
+      return
+    }
+    submit(form, {method: 'post', action: '/login'})
+  }
+
+  return (
+    <Form
+      action="/login"
+      method="post"
+      onSubmit={handleSubmit}
+      className="mb-10 lg:mb-12"
+    >
+      <Button type="submit" variant="secondary">
+        Sign in with a passkey
+      </Button>
+      <div className="mt-4">
+        <InputError id="passkey-error">{error}</InputError>
+      </div>
+    </Form>
+  )
+}
+
 function Login() {
   const data = useLoaderData<LoaderData>()
   const emailSent = data.message === EMAIL_SENT_MESSAGE
@@ -146,6 +317,12 @@ function Login() {
             </div>
           </Form>
 
+          {data.codeSent && data.email ? (
+            <CodeLogin email={data.email} />
+          ) : null}
+
+          <PasskeyLogin />
+
           <Paragraph className="mb-10">
             {`
               To sign in to your account or to create a new one fill in your
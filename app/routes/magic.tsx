@@ -4,6 +4,8 @@ import type {KCDHandle} from '~/types'
 import * as React from 'react'
 import {getLoginInfoSession} from '~/utils/login.server'
 import {getUserSessionFromMagicLink} from '~/utils/session.server'
+import {getReplayResponse} from '~/utils/prisma.server'
+import {getErrorMessage} from '~/utils/misc'
 
 export const handle: KCDHandle = {
   getSitemapEntries: () => null,
@@ -12,7 +14,7 @@ export const handle: KCDHandle = {
 export const loader: LoaderFunction = async ({request}) => {
   const loginInfoSession = await getLoginInfoSession(request)
   try {
-    const session = await getUserSessionFromMagicLink(request)
+    const {emailAddress, session} = await getUserSessionFromMagicLink(request)
     if (session) {
       const headers = new Headers()
       loginInfoSession.clean()
@@ -20,17 +22,19 @@ export const loader: LoaderFunction = async ({request}) => {
       await session.getHeaders(headers)
       return redirect('/me', {headers})
     } else {
-      loginInfoSession.setMagicLink(request.url)
+      loginInfoSession.setVerifiedEmail(emailAddress)
       return redirect('/signup', {
         headers: await loginInfoSession.getHeaders(),
       })
     }
   } catch (error: unknown) {
+    // using up the link can only be done in the primary region
+    const replayResponse = getReplayResponse(request, getErrorMessage(error))
+    if (replayResponse) return replayResponse
+
     console.error(error)
     loginInfoSession.clean()
-    loginInfoSession.flashError(
-      'Sign in link invalid. Please request a new one.',
-    )
+    loginInfoSession.flashError(getErrorMessage(error))
     return redirect('/login', {
       headers: await loginInfoSession.getHeaders(),
     })
@@ -1,19 +1,39 @@
 import * as React from 'react'
 import type {ActionFunction, HeadersFunction, LoaderFunction} from 'remix'
-import {Form, json, redirect, useLoaderData, useActionData} from 'remix'
+import {
+  Form,
+  json,
+  redirect,
+  useLoaderData,
+  useActionData,
+  useSubmit,
+  Link,
+} from 'remix'
 import clsx from 'clsx'
+import {format, formatDistanceToNow} from 'date-fns'
 import {useEffect, useState} from 'react'
-import type {KCDHandle} from '~/types'
+import type {Await, KCDHandle, Team} from '~/types'
 import {getQrCodeDataURL} from '~/utils/qrcode.server'
 import {
   getDiscordAuthorizeURL,
   getDomainUrl,
   getErrorMessage,
   reuseUsefulLoaderHeaders,
+  teamTextColorClasses,
 } from '~/utils/misc'
 import {useRequestInfo, useUser, useUserInfo} from '~/utils/providers'
 import {deleteDiscordCache} from '~/utils/user-info.server'
-import {deleteUser, getMagicLink, updateUser} from '~/utils/prisma.server'
+import {
+  deleteUser,
+  deleteUserSession,
+  deleteUserSessions,
+  createMagicLink,
+  getUserByEmail,
+  getSessionHandle,
+  getUserSessions,
+  prisma,
+  updateUser,
+} from '~/utils/prisma.server'
 import {getSession, requireUser} from '~/utils/session.server'
 import {H2, H3, H6, Paragraph} from '~/components/typography'
 import {Grid} from '~/components/grid'
@@ -26,6 +46,29 @@ import {handleFormSubmission} from '~/utils/actions.server'
 import {EyeIcon} from '~/components/icons/eye-icon'
 import {PlusIcon} from '~/components/icons/plus-icon'
 import {Spacer} from '~/components/spacer'
+import {callStatusLabels} from '~/utils/call-kent'
+import {
+  deletePasskey,
+  getPasskeys,
+  parseCredential,
+  registerPasskey,
+} from '~/utils/passkeys.server'
+import type {PasskeyRegistrationCredential} from '~/utils/passkeys'
+import {createPasskey, isPasskeySupported} from '~/utils/passkeys'
+import {getDeviceDescription} from '~/utils/user-agent'
+import {
+  getPendingEmailChange,
+  requestEmailChange,
+} from '~/utils/email-change.server'
+import {getTeamTrends} from '~/utils/team-snapshots.server'
+import {getAchievements} from '~/utils/achievements.server'
+import {getAchievementInfo} from '~/utils/achievements'
+import {getReadingHistory, getReadingList} from '~/utils/reading-list.server'
+import {ArticleCard} from '~/components/article-card'
+import {TeamTrends} from '~/components/team-trends'
+import {getErrorForEmail} from '~/utils/contact'
+import type {RateLimit} from '~/utils/rate-limit.server'
+import {rateLimit} from '~/utils/rate-limit.server'
 import Dialog from '@reach/dialog'
 
 export const handle: KCDHandle = {
@@ -33,16 +76,69 @@ export const handle: KCDHandle = {
   metas: [{httpEquiv: 'refresh', content: '1740'}],
 }
 
-type LoaderData = {qrLoginCode: string}
+function getCalls(userId: string) {
+  return prisma.call.findMany({
+    where: {userId},
+    select: {id: true, title: true, status: true, episodePath: true},
+    orderBy: {createdAt: 'desc'},
+  })
+}
+
+type LoaderData = {
+  pendingEmailChange: Await<ReturnType<typeof getPendingEmailChange>>
+  calls: Await<ReturnType<typeof getCalls>>
+  passkeys: Await<ReturnType<typeof getPasskeys>>
+  teamTrends: Await<ReturnType<typeof getTeamTrends>>
+  achievements: Await<ReturnType<typeof getAchievements>>
+  readingList: Await<ReturnType<typeof getReadingList>>
+  readingHistory: Await<ReturnType<typeof getReadingHistory>>
+  sessions: Array<
+    Omit<Await<ReturnType<typeof getUserSessions>>[number], 'userAgent'> & {
+      device: string
+      isCurrent: boolean
+    }
+  >
+}
 export const loader: LoaderFunction = ({request}) => {
   return requireUser(request, async user => {
-    const qrLoginCode = await getQrCodeDataURL(
-      getMagicLink({
-        emailAddress: user.email,
-        domainUrl: getDomainUrl(request),
-      }),
-    )
-    const loaderData: LoaderData = {qrLoginCode}
+    const session = await getSession(request)
+    const [
+      pendingEmailChange,
+      calls,
+      passkeys,
+      sessions,
+      teamTrends,
+      achievements,
+      readingList,
+      readingHistory,
+    ] = await Promise.all([
+      getPendingEmailChange(user.id),
+      getCalls(user.id),
+      getPasskeys(user.id),
+      getUserSessions(user.id),
+      getTeamTrends({request}),
+      getAchievements(user.id),
+      getReadingList(user.id),
+      getReadingHistory(user.id),
+    ])
+    const currentSessionId = session.getSessionId()
+    const currentSessionHandle = currentSessionId
+      ? getSessionHandle(currentSessionId)
+      : null
+    const loaderData: LoaderData = {
+      pendingEmailChange,
+      calls,
+      passkeys,
+      teamTrends,
+      achievements,
+      readingList,
+      readingHistory,
+      sessions: sessions.map(({userAgent, ...userSession}) => ({
+        ...userSession,
+        device: getDeviceDescription(userAgent),
+        isCurrent: userSession.handle === currentSessionHandle,
+      })),
+    }
     return json(loaderData, {
       headers: {
         'Cache-Control': 'private, max-age=3600',
@@ -58,6 +154,11 @@ const actionIds = {
   changeDetails: 'change details',
   deleteDiscordConnection: 'delete discord connection',
   deleteAccount: 'delete account',
+  addPasskey: 'add passkey',
+  deletePasskey: 'delete passkey',
+  revokeSession: 'revoke session',
+  signOutEverywhere: 'sign out everywhere',
+  showLoginQrCode: 'show login qr code',
 }
 
 function getFirstNameError(firstName: string | null) {
@@ -65,14 +166,31 @@ function getFirstNameError(firstName: string | null) {
   return null
 }
 
+// naming a passkey is optional
+function getPasskeyName(name: string | null) {
+  const trimmed = name?.trim() ?? ''
+  return trimmed === '' ? 'Passkey' : trimmed
+}
+
+// every email change sends an email
+const emailChangeRateLimit: RateLimit = {
+  name: 'email-change',
+  perIp: {max: 10, window: 1000 * 60 * 60},
+  perIdentifier: {max: 3, window: 1000 * 60 * 60},
+}
+
 type ActionData = {
   fields: {
     firstName?: string | null
+    email?: string | null
   }
   errors: {
     generalError?: string | null
     firstName?: string | null
+    email?: string | null
+    passkey?: string | null
   }
+  qrLoginCode?: string
 }
 export const action: ActionFunction = async ({request}) => {
   return requireUser(request, async user => {
@@ -87,6 +205,35 @@ export const action: ActionFunction = async ({request}) => {
           headers: await session.getHeaders(),
         })
       }
+      if (actionId === actionIds.showLoginQrCode) {
+        // every one of these is a working login link, so we only make one
+        // when they ask to see it
+        const {link} = await createMagicLink({
+          emailAddress: user.email,
+          domainUrl: getDomainUrl(request),
+        })
+        const actionData: ActionData = {
+          fields: {},
+          errors: {},
+          qrLoginCode: await getQrCodeDataURL(link),
+        }
+        return json(actionData)
+      }
+      if (actionId === actionIds.revokeSession) {
+        await deleteUserSession({
+          userId: user.id,
+          sessionHandle: form.get('sessionHandle') ?? '',
+        })
+        return redirect('/me')
+      }
+      if (actionId === actionIds.signOutEverywhere) {
+        const session = await getSession(request)
+        session.unsetSessionId()
+        await deleteUserSessions(user.id)
+        return redirect('/login', {
+          headers: await session.getHeaders(),
+        })
+      }
       if (actionId === actionIds.deleteDiscordConnection && user.discordId) {
         await deleteDiscordCache(user.discordId)
         await updateUser(user.id, {discordId: null})
@@ -94,15 +241,83 @@ export const action: ActionFunction = async ({request}) => {
       if (actionId === actionIds.changeDetails) {
         return await handleFormSubmission<ActionData>({
           form,
-          validators: {firstName: getFirstNameError},
-          handleFormValues: async ({firstName}) => {
+          validators: {
+            firstName: getFirstNameError,
+            email: async email => {
+              if (email === user.email) return null
+              const error = getErrorForEmail(email)
+              if (error) return error
+              if (email && (await getUserByEmail(email))) {
+                return `There's already an account for ${email}`
+              }
+              return null
+            },
+          },
+          handleFormValues: async ({firstName, email}) => {
             if (firstName && user.firstName !== firstName) {
               await updateUser(user.id, {firstName})
             }
+            // the email only changes once they confirm the new one
+            if (email && user.email !== email) {
+              const rateLimited = await rateLimit(
+                request,
+                emailChangeRateLimit,
+                user.id,
+              )
+              if (rateLimited) {
+                const actionData: ActionData = {
+                  fields: {firstName, email},
+                  errors: {email: rateLimited.message},
+                }
+                return json(actionData, {
+                  status: 429,
+                  headers: rateLimited.headers,
+                })
+              }
+              await requestEmailChange({
+                user,
+                newEmail: email,
+                domainUrl: getDomainUrl(request),
+              })
+            }
             return redirect('/me')
           },
         })
       }
+      if (actionId === actionIds.addPasskey) {
+        const credential = parseCredential<PasskeyRegistrationCredential>(
+          form.get('credential'),
+        )
+        if (!credential) {
+          const actionData: ActionData = {
+            fields: {},
+            errors: {passkey: 'No passkey was created. Please try again.'},
+          }
+          return json(actionData, 400)
+        }
+        try {
+          await registerPasskey({
+            request,
+            user,
+            name: getPasskeyName(form.get('passkeyName')),
+            credential,
+          })
+        } catch (error: unknown) {
+          const actionData: ActionData = {
+            fields: {},
+            errors: {passkey: getErrorMessage(error)},
+          }
+          return json(actionData, 400)
+        }
+        return redirect('/me')
+      }
+      if (actionId === actionIds.deletePasskey) {
+        await deletePasskey({
+          userId: user.id,
+          passkeyId: form.get('passkeyId') ?? '',
+        })
+        return redirect('/me')
+      }
       if (actionId === actionIds.deleteAccount) {
         const session = await getSession(request)
         session.signOut()
@@ -123,6 +338,253 @@ export const action: ActionFunction = async ({request}) => {
 
 const SHOW_QR_DURATION = 15_000
 
+// the history can get long and the oldest reads aren't that interesting
+const historyLength = 20
+
+function ReadingHistory({history}: {history: LoaderData['readingHistory']}) {
+  return (
+    <Grid>
+      <div className="col-span-full">
+        <H2>{`What you've read`}</H2>
+        <H2 variant="secondary" as="p">
+          {history.length
+            ? `${history.length} posts so far.`
+            : `Nothing yet. The blog is a good place to start.`}
+        </H2>
+      </div>
+      <Spacer size="3xs" className="col-span-full" />
+      <ul className="col-span-full">
+        {history.slice(0, historyLength).map(post => (
+          <li key={post.slug} className="mb-4">
+            <Link
+              to={`/blog/${post.slug}`}
+              className="underlined text-primary text-lg font-medium"
+            >
+              {post.title}
+            </Link>
+            <Paragraph>
+              {`Last read ${format(new Date(post.lastReadAt), 'PPP')}`}
+              {post.readCount > 1 ? ` (${post.readCount} times)` : null}
+            </Paragraph>
+          </li>
+        ))}
+      </ul>
+    </Grid>
+  )
+}
+
+function Achievements({
+  achievements: {achievements, dayStreak, weekStreak},
+  team,
+}: {
+  achievements: LoaderData['achievements']
+  team: Team
+}) {
+  const streakText = (count: number, unit: string) =>
+    `${count} ${unit}${count === 1 ? '' : 's'}`
+  return (
+    <Grid>
+      <div className="col-span-full">
+        <H2>Your achievements</H2>
+        <H2 variant="secondary" as="p">
+          {`You've read something ${streakText(
+            dayStreak.current,
+            'day',
+          )} (and ${streakText(weekStreak.current, 'week')}) in a row.`}
+        </H2>
+      </div>
+      <Spacer size="3xs" className="col-span-full" />
+      {achievements.length ? (
+        <ul className="flex flex-wrap col-span-full gap-4">
+          {achievements.map(({key, createdAt}) => {
+            const info = getAchievementInfo(key, team)
+            if (!info) return null
+            return (
+              <li
+                key={key}
+                title={`Earned ${format(new Date(createdAt), 'PPP')}`}
+                className="px-6 py-4 border-2 border-team-current rounded-lg"
+              >
+                <p
+                  className={clsx(
+                    'text-lg font-medium',
+                    teamTextColorClasses[team],
+                  )}
+                >
+                  {info.title}
+                </p>
+                <Paragraph>{info.description}</Paragraph>
+              </li>
+            )
+          })}
+        </ul>
+      ) : (
+        <Paragraph className="col-span-full">
+          {`Keep reading the blog to earn some.`}
+        </Paragraph>
+      )}
+      <Paragraph className="col-span-full mt-4">
+        {`Longest streaks: ${streakText(
+          dayStreak.longest,
+          'day',
+        )} and ${streakText(weekStreak.longest, 'week')}.`}
+      </Paragraph>
+    </Grid>
+  )
+}
+
+function Sessions({sessions}: {sessions: LoaderData['sessions']}) {
+  return (
+    <Grid>
+      <div className="col-span-full">
+        <H2>{`Where you're signed in`}</H2>
+        <H2 variant="secondary" as="p">
+          {`Don't recognize one? Sign it out.`}
+        </H2>
+      </div>
+      <Spacer size="3xs" className="col-span-full" />
+      <ul className="col-span-full mb-8">
+        {sessions.map(session => (
+          <li key={session.handle} className="flex items-center gap-4 mb-4">
+            <div>
+              <p className="text-primary text-lg font-medium">
+                {session.device}
+                {session.region ? ` (${session.region})` : null}
+                {session.isCurrent ? ' – this device' : null}
+              </p>
+              <Paragraph>
+                {`Signed in ${format(new Date(session.createdAt), 'PPP')}. `}
+                {`Last seen ${formatDistanceToNow(
+                  new Date(session.lastSeenAt),
+                  {addSuffix: true},
+                )}.`}
+              </Paragraph>
+            </div>
+            {session.isCurrent ? null : (
+              <Form action="/me" method="post">
+                <input
+                  type="hidden"
+                  name="actionId"
+                  value={actionIds.revokeSession}
+                />
+                <input
+                  type="hidden"
+                  name="sessionHandle"
+                  value={session.handle}
+                />
+                <Button type="submit" size="medium" variant="secondary">
+                  Sign out
+                </Button>
+              </Form>
+            )}
+          </li>
+        ))}
+      </ul>
+      <Form action="/me" method="post" className="col-span-full">
+        <input
+          type="hidden"
+          name="actionId"
+          value={actionIds.signOutEverywhere}
+        />
+        <Button type="submit">Sign out everywhere</Button>
+      </Form>
+    </Grid>
+  )
+}
+
+function Passkeys({
+  passkeys,
+  error,
+}: {
+  passkeys: LoaderData['passkeys']
+  error?: string | null
+}) {
+  const submit = useSubmit()
+  const [isSupported, setIsSupported] = useState(false)
+  const [clientError, setClientError] = useState<string | null>(null)
+  // WebAuthn support can only be checked in the browser
+  useEffect(() => setIsSupported(isPasskeySupported()), [])
+
+  async function handleSubmit(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault()
+    const form = new FormData(event.currentTarget)
+    setClientError(null)
+    try {
+      form.append('credential', JSON.stringify(await createPasskey()))
+    } catch (createError: unknown) {
+      setClientError(getErrorMessage(createError))
+      return
+    }
+    submit(form, {method: 'post', action: '/me'})
+  }
+
+  return (
+    <Grid>
+      <div className="col-span-full">
+        <H2>Passkeys</H2>
+        <H2 variant="secondary" as="p">
+          Sign in with your fingerprint, face, or device PIN.
+        </H2>
+      </div>
+      <Spacer size="3xs" className="col-span-full" />
+      {passkeys.length ? (
+        <ul className="col-span-full mb-8">
+          {passkeys.map(passkey => (
+            <li key={passkey.id} className="flex items-center gap-4 mb-4">
+              <div>
+                <p className="text-primary text-lg font-medium">
+                  {passkey.name}
+                </p>
+                <Paragraph>
+                  {`Added ${format(new Date(passkey.createdAt), 'PPP')}. `}
+                  {passkey.lastUsedAt
+                    ? `Last used ${format(
+                        new Date(passkey.lastUsedAt),
+                        'PPP',
+                      )}.`
+                    : 'Never used.'}
+                </Paragraph>
+              </div>
+              <Form action="/me" method="post">
+                <input
+                  type="hidden"
+                  name="actionId"
+                  value={actionIds.deletePasskey}
+                />
+                <input type="hidden" name="passkeyId" value={passkey.id} />
+                <Button type="submit" size="medium" variant="secondary">
+                  Remove
+                </Button>
+              </Form>
+            </li>
+          ))}
+        </ul>
+      ) : null}
+      {isSupported ? (
+        <Form
+          action="/me"
+          method="post"
+          onSubmit={handleSubmit}
+          className="col-span-full lg:col-span-5"
+        >
+          <input type="hidden" name="actionId" value={actionIds.addPasskey} />
+          <Field
+            name="passkeyName"
+            label="Passkey name"
+            placeholder="My laptop"
+            error={clientError ?? error}
+          />
+          <Button type="submit">Add a passkey</Button>
+        </Form>
+      ) : (
+        <Paragraph className="col-span-full">
+          {`This browser doesn't support passkeys, but you can always sign in with a magic link.`}
+        </Paragraph>
+      )}
+    </Grid>
+  )
+}
+
 function YouScreen() {
   const data = useLoaderData<LoaderData>()
   const actionData = useActionData<ActionData>()
@@ -133,6 +595,11 @@ function YouScreen() {
   const [qrIsVisible, setQrIsVisible] = useState(false)
   const [deleteModalOpen, setDeleteModalOpen] = React.useState(false)
 
+  const qrLoginCode = actionData?.qrLoginCode
+  useEffect(() => {
+    if (qrLoginCode) setQrIsVisible(true)
+  }, [qrLoginCode])
+
   useEffect(() => {
     if (!qrIsVisible) return
 
@@ -156,11 +623,7 @@ function YouScreen() {
                 </H2>
               </div>
               <Form action="/me" method="post">
-                <input
-                  type="hidden"
-                  name="actionId"
-                  value={actionIds.logout}
-                />
+                <input type="hidden" name="actionId" value={actionIds.logout} />
                 <Button variant="secondary">
                   <LogoutIcon />
                   <H6 as="span">logout</H6>
@@ -193,16 +656,21 @@ function YouScreen() {
                 required
                 error={actionData?.errors.firstName}
               />
+              <Field
+                name="email"
+                label="Email address"
+                type="email"
+                autoComplete="email"
+                required
+                defaultValue={actionData?.fields.email ?? user.email}
+                error={actionData?.errors.email}
+                description={
+                  data.pendingEmailChange
+                    ? `Check ${data.pendingEmailChange.newEmail} for a link to confirm the change.`
+                    : `We'll send a link to your new email to confirm the change.`
+                }
+              />
             </Form>
-            <Field
-              name="email"
-              label="Email address"
-              autoComplete="email"
-              required
-              defaultValue={user.email}
-              readOnly
-              disabled
-            />
 
             <Field
               name="discord"
@@ -289,34 +757,144 @@ function YouScreen() {
         </div>
 
         <div className="bg-secondary relative col-span-full p-4 rounded-lg lg:col-span-5 lg:col-start-1 lg:row-start-1">
-          <img
-            src={data.qrLoginCode}
-            alt="Login QR Code"
-            className="w-full rounded-lg object-contain"
-          />
-          <button
-            onClick={() => setQrIsVisible(true)}
-            className={clsx(
-              'focus-ring text-primary bg-secondary absolute inset-0 flex flex-col items-center justify-center w-full h-full text-lg font-medium rounded-lg transition duration-200',
-              {
-                'opacity-100': !qrIsVisible,
-                'opacity-0': qrIsVisible,
-              },
-            )}
-          >
-            <EyeIcon size={36} />
-            <span>click to reveal</span>
-          </button>
+          {qrLoginCode ? (
+            <img
+              src={qrLoginCode}
+              alt="Login QR Code"
+              className="w-full rounded-lg object-contain"
+            />
+          ) : (
+            <div className="aspect-w-1 aspect-h-1 w-full" />
+          )}
+          <Form action="/me" method="post">
+            <input
+              type="hidden"
+              name="actionId"
+              value={actionIds.showLoginQrCode}
+            />
+            <button
+              type="submit"
+              className={clsx(
+                'focus-ring text-primary bg-secondary absolute inset-0 flex flex-col items-center justify-center w-full h-full text-lg font-medium rounded-lg transition duration-200',
+                {
+                  'opacity-100': !qrIsVisible,
+                  'opacity-0': qrIsVisible,
+                },
+              )}
+            >
+              <EyeIcon size={36} />
+              <span>click to reveal</span>
+            </button>
+          </Form>
         </div>
       </Grid>
 
       <Spacer size="sm" />
 
+      {data.calls.length ? (
+        <>
+          <Grid>
+            <div className="col-span-full">
+              <H2>Your calls</H2>
+            </div>
+            <Spacer size="3xs" className="col-span-full" />
+            <ul className="col-span-full">
+              {data.calls.map(call => (
+                <li key={call.id} className="mb-4">
+                  <Link
+                    to={`/calls/record/${call.id}`}
+                    className="underlined text-primary text-lg font-medium"
+                  >
+                    {call.title}
+                  </Link>
+                  <Paragraph>
+                    {callStatusLabels[call.status]}
+                    {call.episodePath ? (
+                      <>
+                        {' – '}
+                        <Link to={call.episodePath} className="underlined">
+                          listen to the episode
+                        </Link>
+                      </>
+                    ) : null}
+                  </Paragraph>
+                </li>
+              ))}
+            </ul>
+          </Grid>
+
+          <Spacer size="sm" />
+        </>
+      ) : null}
+
+      <Grid>
+        <div className="col-span-full">
+          <H2>How your team is doing</H2>
+          <H2 variant="secondary" as="p">
+            <Link to="/teams" className="underlined">
+              See all the teams
+            </Link>
+          </H2>
+        </div>
+        <Spacer size="3xs" className="col-span-full" />
+        <div className="col-span-full">
+          <TeamTrends trends={data.teamTrends} highlightTeam={user.team} />
+        </div>
+      </Grid>
+
+      <Spacer size="sm" />
+
+      {data.readingList.length ? (
+        <>
+          <Grid>
+            <div className="col-span-full">
+              <H2>Your reading list</H2>
+              <H2 variant="secondary" as="p">
+                The posts you saved for later.
+              </H2>
+            </div>
+            <Spacer size="3xs" className="col-span-full" />
+            {data.readingList.map(article => (
+              <div key={article.slug} className="col-span-4 mb-10">
+                <ArticleCard {...article} isBookmarked />
+              </div>
+            ))}
+          </Grid>
+
+          <Spacer size="sm" />
+        </>
+      ) : null}
+
+      <ReadingHistory history={data.readingHistory} />
+
+      <Spacer size="sm" />
+
+      <Achievements achievements={data.achievements} team={user.team} />
+
+      <Spacer size="sm" />
+
+      <Passkeys passkeys={data.passkeys} error={actionData?.errors.passkey} />
+
+      <Spacer size="sm" />
+
+      <Sessions sessions={data.sessions} />
+
+      <Spacer size="sm" />
+
       <Grid>
         <div className="col-span-full">
           <H2>Manage Your Account</H2>
         </div>
         <Spacer size="3xs" className="col-span-full" />
+        <div className="col-span-full lg:col-span-4">
+          {/* a regular form so the browser downloads the file */}
+          <form action="/_me/data-export" method="get">
+            <Button type="submit" variant="secondary">
+              Download Your Data
+            </Button>
+          </form>
+        </div>
+        <Spacer size="3xs" className="col-span-full lg:hidden" />
         <div className="col-span-full lg:col-span-4">
           <Button onClick={() => setDeleteModalOpen(true)}>
             Delete Account
@@ -0,0 +1,150 @@
+import * as React from 'react'
+import type {HeadersFunction, LoaderFunction, MetaFunction} from 'remix'
+import {Form, json, useLoaderData} from 'remix'
+import {Link} from 'react-router-dom'
+import type {KCDHandle} from '~/types'
+import {Grid} from '~/components/grid'
+import {H3, H6, Paragraph} from '~/components/typography'
+import {SearchIcon} from '~/components/icons/search-icon'
+import {HeroSection} from '~/components/sections/hero-section'
+import {ServerError} from '~/components/errors'
+import {getImgProps, images} from '~/images'
+import type {Timings} from '~/utils/metrics.server'
+import {getServerTimeHeader} from '~/utils/metrics.server'
+import type {SearchDocumentType, SearchResult} from '~/utils/search.server'
+import {searchSite} from '~/utils/search.server'
+import {reuseUsefulLoaderHeaders} from '~/utils/misc'
+
+export const handle: KCDHandle = {
+  getSitemapEntries: () => null,
+}
+
+type LoaderData = {
+  query: string
+  results: Array<SearchResult>
+}
+
+export const loader: LoaderFunction = async ({request}) => {
+  const timings: Timings = {}
+  const query = new URL(request.url).searchParams.get('q')?.trim() ?? ''
+  const data: LoaderData = {
+    query,
+    results: await searchSite(query, {request, timings}),
+  }
+  return json(data, {
+    headers: {
+      'Cache-Control': 'public, max-age=300',
+      'Server-Timing': getServerTimeHeader(timings),
+    },
+  })
+}
+
+export const headers: HeadersFunction = reuseUsefulLoaderHeaders
+
+export const meta: MetaFunction = ({data}: {data: LoaderData | undefined}) => {
+  return {
+    title: data?.query
+      ? `Search results for "${data.query}"`
+      : 'Search Kent C. Dodds',
+    description:
+      'Search blog posts, podcast episodes, talks, and workshops by Kent C. Dodds',
+  }
+}
+
+const typeLabels: Record<SearchDocumentType, string> = {
+  blog: 'Blog post',
+  chats: 'Chats with Kent',
+  calls: 'Call Kent',
+  talks: 'Talk',
+  workshops: 'Workshop',
+}
+
+function SearchResultItem({result}: {result: SearchResult}) {
+  return (
+    <li className="col-span-full mb-12 lg:col-span-8 lg:col-start-3">
+      <H6 as="p" className="mb-2">
+        {typeLabels[result.type]}
+      </H6>
+      <H3 as="h2" className="mb-4">
+        <Link to={result.url} className="hover:underline">
+          {result.title}
+        </Link>
+      </H3>
+      <Paragraph>
+        {result.snippet.map((part, index) =>
+          part.highlight ? (
+            <mark
+              key={index}
+              className="text-primary bg-yellow-500 bg-opacity-40 rounded"
+            >
+              {part.text}
+            </mark>
+          ) : (
+            <React.Fragment key={index}>{part.text}</React.Fragment>
+          ),
+        )}
+      </Paragraph>
+    </li>
+  )
+}
+
+export default function SearchScreen() {
+  const data = useLoaderData<LoaderData>()
+  return (
+    <>
+      <HeroSection
+        title="Search everything."
+        subtitle="Blog posts, podcast episodes, talks, and workshops."
+        imageBuilder={images.skis}
+        action={
+          <Form action="/search" method="get">
+            <div className="relative">
+              <div className="absolute left-8 top-0 flex items-center justify-center h-full text-blueGray-500">
+                <SearchIcon />
+              </div>
+              <input
+                defaultValue={data.query}
+                name="q"
+                type="search"
+                placeholder="Search"
+                aria-label="Search"
+                className="text-primary bg-primary border-secondary hover:border-primary focus:border-primary focus:bg-secondary px-16 py-6 w-full text-lg font-medium border rounded-full focus:outline-none"
+              />
+              {data.query ? (
+                <div className="absolute right-8 top-0 flex items-center justify-center h-full text-blueGray-500 text-lg font-medium">
+                  {data.results.length}
+                </div>
+              ) : null}
+            </div>
+          </Form>
+        }
+      />
+
+      <Grid as="ul" className="mb-64">
+        {data.query && data.results.length === 0 ? (
+          <li className="flex flex-col col-span-full items-center">
+            <img
+              className="mt-24 w-full max-w-lg h-auto"
+              {...getImgProps(images.bustedOnewheel, {
+                widths: [350, 512, 1024, 1536],
+                sizes: ['(max-width: 639px) 80vw', '512px'],
+              })}
+            />
+            <H3 variant="secondary" className="mt-24 max-w-lg">
+              {`Couldn't find anything for "${data.query}". Try different words.`}
+            </H3>
+          </li>
+        ) : (
+          data.results.map(result => (
+            <SearchResultItem key={result.url} result={result} />
+          ))
+        )}
+      </Grid>
+    </>
+  )
+}
+
+export function ErrorBoundary({error}: {error: Error}) {
+  console.error(error)
+  return <ServerError />
+}
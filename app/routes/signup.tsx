@@ -13,7 +13,7 @@ import clsx from 'clsx'
 import {shuffle} from 'lodash'
 import {getSession, getUser} from '~/utils/session.server'
 import {getLoginInfoSession} from '~/utils/login.server'
-import {prisma, validateMagicLink} from '~/utils/prisma.server'
+import {prisma} from '~/utils/prisma.server'
 import {getErrorStack, teams} from '~/utils/misc'
 import {tagKCDSiteSubscriber} from '../convertkit/convertkit.server'
 import {useTeam} from '~/utils/providers'
@@ -63,17 +63,8 @@ function getErrorForTeam(team: string | null) {
 export const action: ActionFunction = async ({request}) => {
   const session = await getSession(request)
   const loginInfoSession = await getLoginInfoSession(request)
-  const magicLink = loginInfoSession.getMagicLink()
-  let email: string
-  try {
-    if (typeof magicLink !== 'string') {
-      throw new Error('email and magicLink required.')
-    }
-
-    email = await validateMagicLink(magicLink)
-  } catch (error: unknown) {
-    console.error(getErrorStack(error))
-
+  const email = loginInfoSession.getVerifiedEmail()
+  if (!email) {
     loginInfoSession.clean()
     loginInfoSession.flashError(
       'Sign in link invalid. Please request a new one.',
@@ -128,7 +119,7 @@ export const loader: LoaderFunction = async ({request}) => {
   if (user) return redirect('/me')
 
   const loginInfoSession = await getLoginInfoSession(request)
-  const email = loginInfoSession.getEmail()
+  const email = loginInfoSession.getVerifiedEmail()
   if (!email) {
     loginInfoSession.clean()
     loginInfoSession.flashError('Invalid magic link. Try again.')
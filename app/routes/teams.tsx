@@ -0,0 +1,70 @@
+import * as React from 'react'
+import type {HeadersFunction, LoaderFunction} from 'remix'
+import {json, useLoaderData} from 'remix'
+import type {Await} from '~/types'
+import {getBlogReadRankings, getTotalPostReads} from '~/utils/blog.server'
+import {getTeamTrends} from '~/utils/team-snapshots.server'
+import {formatNumber, reuseUsefulLoaderHeaders} from '~/utils/misc'
+import {useTeam} from '~/utils/providers'
+import {Grid} from '~/components/grid'
+import {H2} from '~/components/typography'
+import {Spacer} from '~/components/spacer'
+import {TeamStats} from '~/components/team-stats'
+import {TeamTrends} from '~/components/team-trends'
+
+type LoaderData = {
+  trends: Await<ReturnType<typeof getTeamTrends>>
+  readRankings: Await<ReturnType<typeof getBlogReadRankings>>
+  totalReads: string
+}
+
+export const loader: LoaderFunction = async ({request}) => {
+  const [trends, readRankings, totalReads] = await Promise.all([
+    getTeamTrends({request}),
+    getBlogReadRankings(request),
+    getTotalPostReads(request),
+  ])
+  const data: LoaderData = {
+    trends,
+    readRankings,
+    totalReads: formatNumber(totalReads),
+  }
+  return json(data, {
+    headers: {'Cache-Control': 'private, max-age=3600'},
+  })
+}
+
+export const headers: HeadersFunction = reuseUsefulLoaderHeaders
+
+export default function TeamsScreen() {
+  const data = useLoaderData<LoaderData>()
+  const [team] = useTeam()
+  return (
+    <>
+      <Spacer size="sm" />
+      <Grid>
+        <div className="flex flex-wrap col-span-full gap-6 justify-between">
+          <div>
+            <H2>How the teams are doing.</H2>
+            <H2 variant="secondary" as="p">
+              Week by week, by blog reads per active member.
+            </H2>
+          </div>
+          <TeamStats
+            totalReads={data.totalReads}
+            rankings={data.readRankings}
+            direction="down"
+          />
+        </div>
+        <Spacer size="3xs" className="col-span-full" />
+        <div className="col-span-full">
+          <TeamTrends
+            trends={data.trends}
+            highlightTeam={team === 'UNKNOWN' ? undefined : team}
+          />
+        </div>
+      </Grid>
+      <Spacer size="lg" />
+    </>
+  )
+}
@@ -0,0 +1,217 @@
+import type {MdxListItem, Team} from '~/types'
+import {prisma} from './prisma.server'
+import {getBlogMdxListItems} from './mdx'
+import {
+  achievementKeys,
+  getCurrentStreaks,
+  getMilestoneKeys,
+  getNextStats,
+  getStatsFromReads,
+  getTopReaderIds,
+} from './achievements'
+import type {ReadingStats} from './achievements'
+
+// a category with fewer posts than this is too easy to be worth anything
+const minCategoryPosts = 3
+
+type Collection = {key: string; slugs: Array<string>}
+
+/**
+ * @returns the categories and years you have to read every post of to get
+ * their achievement.
+ */
+function getCollections(posts: Array<MdxListItem>): Array<Collection> {
+  const postsByCategory = new Map<string, Array<string>>()
+  const postsByYear = new Map<string, Array<string>>()
+  const addTo = (map: Map<string, Array<string>>, key: string, slug: string) =>
+    map.set(key, [...(map.get(key) ?? []), slug])
+  for (const post of posts) {
+    if (post.frontmatter.archived) continue
+    for (const category of post.frontmatter.categories ?? []) {
+      addTo(postsByCategory, category, post.slug)
+    }
+    const year = post.frontmatter.date?.slice(0, 4)
+    if (year) addTo(postsByYear, year, post.slug)
+  }
+  return [
+    ...Array.from(postsByCategory)
+      .filter(([, slugs]) => slugs.length >= minCategoryPosts)
+      .map(([category, slugs]) => ({
+        key: achievementKeys.category(category),
+        slugs,
+      })),
+    ...Array.from(postsByYear, ([year, slugs]) => ({
+      key: achievementKeys.year(year),
+      slugs,
+    })),
+  ]
+}
+
+function getCompletedKeys(
+  collections: Array<Collection>,
+  readSlugs: Set<string>,
+) {
+  return collections
+    .filter(({slugs}) => slugs.every(slug => readSlugs.has(slug)))
+    .map(({key}) => key)
+}
+
+async function awardAchievements(userId: string, keys: Array<string>) {
+  if (!keys.length) return
+  await prisma.achievement.createMany({
+    data: keys.map(key => ({userId, key})),
+    skipDuplicates: true,
+  })
+}
+
+function saveStats(userId: string, stats: ReadingStats) {
+  return prisma.readingStats.upsert({
+    where: {userId},
+    create: {userId, ...stats},
+    update: stats,
+  })
+}
+
+/**
+ * Works out the user's reading stats from all of their reads and gives them
+ * anything those reads have earned. This is for when they don't have stats
+ * yet or have just been given a bunch of reads at once (like when they sign
+ * in and get the reads from before they did).
+ */
+async function rebuildAchievements(userId: string) {
+  const [reads, posts] = await Promise.all([
+    prisma.postRead.findMany({
+      where: {userId},
+      select: {postSlug: true, createdAt: true},
+    }),
+    getBlogMdxListItems({forceFresh: false}),
+  ])
+  const stats = getStatsFromReads(reads)
+  if (!stats) return null
+  await saveStats(userId, stats)
+  const readSlugs = new Set(reads.map(read => read.postSlug))
+  await awardAchievements(userId, [
+    ...getMilestoneKeys(stats),
+    ...getCompletedKeys(getCollections(posts), readSlugs),
+  ])
+  return stats
+}
+
+/**
+ * Counts a new read in the user's stats and gives them anything it earned.
+ * Only the categories and years the post is in can have been completed by it.
+ */
+async function countRead(
+  {userId, slug, readAt}: {userId: string; slug: string; readAt: Date},
+  previousStats: ReadingStats,
+) {
+  const [readsOfPost, posts] = await Promise.all([
+    prisma.postRead.count({where: {userId, postSlug: slug}}),
+    getBlogMdxListItems({forceFresh: false}),
+  ])
+  const stats = getNextStats(previousStats, {
+    readAt,
+    isNewPost: readsOfPost === 1,
+  })
+  await saveStats(userId, stats)
+
+  const collections = getCollections(posts).filter(({slugs}) =>
+    slugs.includes(slug),
+  )
+  const collectionReads = await prisma.postRead.findMany({
+    where: {
+      userId,
+      postSlug: {in: Array.from(new Set(collections.flatMap(c => c.slugs)))},
+    },
+    select: {postSlug: true},
+    distinct: ['postSlug'],
+  })
+  const readSlugs = new Set(collectionReads.map(read => read.postSlug))
+  await awardAchievements(userId, [
+    ...getMilestoneKeys(stats),
+    ...getCompletedKeys(collections, readSlugs),
+  ])
+  return stats
+}
+
+async function isTrailblazer({
+  userId,
+  team,
+  slug,
+}: {
+  userId: string
+  team: Team
+  slug: string
+}) {
+  const teammateRead = await prisma.postRead.findFirst({
+    where: {userId: {not: userId}, user: {team}, postSlug: slug},
+    select: {id: true},
+  })
+  return !teammateRead
+}
+
+/**
+ * Gives the user any achievements they've earned with the read of the post
+ * with the given slug at `readAt`. Top reader can't be known until the week is
+ * over, so that's awarded with the weekly team snapshot (see awardTopReaders).
+ */
+async function updateAchievements(read: {
+  userId: string
+  slug: string
+  readAt: Date
+}) {
+  const user = await prisma.user.findUnique({
+    where: {id: read.userId},
+    select: {team: true, readingStats: true},
+  })
+  if (!user) return
+  const stats = user.readingStats
+    ? await countRead(read, user.readingStats)
+    : await rebuildAchievements(read.userId)
+  if (!stats) return
+  if (await isTrailblazer({...read, team: user.team})) {
+    await awardAchievements(read.userId, [achievementKeys.teamTrailblazer])
+  }
+}
+
+/**
+ * Gives top reader to whoever read more than anyone else on their team in a
+ * week that's over.
+ */
+async function awardTopReaders(weekReads: Array<{userId: string; team: Team}>) {
+  await prisma.achievement.createMany({
+    data: getTopReaderIds(weekReads).map(userId => ({
+      userId,
+      key: achievementKeys.teamTopReader,
+    })),
+    skipDuplicates: true,
+  })
+}
+
+async function getAchievements(userId: string) {
+  const [achievements, readingStats] = await Promise.all([
+    prisma.achievement.findMany({
+      where: {userId},
+      select: {key: true, createdAt: true},
+      orderBy: {createdAt: 'desc'},
+    }),
+    prisma.readingStats.findUnique({where: {userId}}),
+  ])
+  // they'll have stats saved after their next read
+  const stats =
+    readingStats ??
+    getStatsFromReads(
+      await prisma.postRead.findMany({
+        where: {userId},
+        select: {postSlug: true, createdAt: true},
+      }),
+    )
+  return {achievements, ...getCurrentStreaks(stats)}
+}
+
+export {
+  updateAchievements,
+  rebuildAchievements,
+  awardTopReaders,
+  getAchievements,
+}
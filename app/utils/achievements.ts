@@ -0,0 +1,234 @@
+// Members earn achievements by reading the blog. Each one is stored by a key
+// like "posts:50" or "category:react" (see app/utils/achievements.server.ts
+// for when they're earned). This is what they mean and how they're shown.
+import {differenceInCalendarDays, differenceInCalendarWeeks} from 'date-fns'
+import type {Team} from '~/types'
+import {teamDisplay} from './misc'
+
+const dayStreakMilestones = [3, 7, 30]
+const weekStreakMilestones = [4, 12, 52]
+const postCountMilestones = [10, 50, 100]
+
+const achievementKeys = {
+  dayStreak: (days: number) => `day-streak:${days}`,
+  weekStreak: (weeks: number) => `week-streak:${weeks}`,
+  postCount: (count: number) => `posts:${count}`,
+  category: (category: string) => `category:${category}`,
+  year: (year: string) => `year:${year}`,
+  // the first on their team to read a post
+  teamTrailblazer: 'team:trailblazer',
+  // read more than anyone else on their team in a week
+  teamTopReader: 'team:top-reader',
+}
+
+type AchievementInfo = {title: string; description: string}
+
+function getAchievementInfo(key: string, team: Team): AchievementInfo | null {
+  const [type, value = ''] = key.split(':')
+  const teamName = `the ${teamDisplay[team].toLowerCase()} team`
+  switch (type) {
+    case 'day-streak':
+      return {
+        title: `${value} day streak`,
+        description: `Read something ${value} days in a row.`,
+      }
+    case 'week-streak':
+      return {
+        title: `${value} week streak`,
+        description: `Read something ${value} weeks in a row.`,
+      }
+    case 'posts':
+      return {title: `${value} posts`, description: `Read ${value} posts.`}
+    case 'category':
+      return {
+        title: `All about ${value}`,
+        description: `Read every post about ${value}.`,
+      }
+    case 'year':
+      return {
+        title: `The class of ${value}`,
+        description: `Read every post from ${value}.`,
+      }
+    case 'team':
+      if (value === 'trailblazer') {
+        return {
+          title: 'Trailblazer',
+          description: `The first on ${teamName} to read a post.`,
+        }
+      }
+      if (value === 'top-reader') {
+        return {
+          title: 'Top reader',
+          description: `Read more than anyone else on ${teamName} in a week.`,
+        }
+      }
+      return null
+    default:
+      return null
+  }
+}
+
+/**
+ * @returns the most days (or weeks) in a row with a read, and how many of them
+ * lead up to now. A streak isn't over until a whole day (or week) goes by
+ * without a read.
+ */
+function getStreaks(
+  dates: Array<Date>,
+  unit: 'day' | 'week',
+  now: Date = new Date(),
+) {
+  const getPeriod = (date: Date) =>
+    unit === 'day'
+      ? differenceInCalendarDays(date, 0)
+      : differenceInCalendarWeeks(date, 0, {weekStartsOn: 1})
+  const periods = Array.from(new Set(dates.map(getPeriod))).sort(
+    (a, b) => a - b,
+  )
+
+  let longest = 0
+  let run = 0
+  let previous: number | null = null
+  for (const period of periods) {
+    run = previous !== null && period === previous + 1 ? run + 1 : 1
+    longest = Math.max(longest, run)
+    previous = period
+  }
+  const current = previous !== null && getPeriod(now) - previous <= 1 ? run : 0
+  return {current, longest}
+}
+
+type ReadingStats = {
+  lastReadAt: Date
+  postCount: number
+  dayStreak: number
+  weekStreak: number
+  longestDayStreak: number
+  longestWeekStreak: number
+}
+
+function getStatsFromReads(
+  reads: Array<{postSlug: string; createdAt: Date}>,
+): ReadingStats | null {
+  if (!reads.length) return null
+  const dates = reads.map(read => read.createdAt)
+  const lastReadAt = new Date(Math.max(...dates.map(date => date.getTime())))
+  const dayStreak = getStreaks(dates, 'day', lastReadAt)
+  const weekStreak = getStreaks(dates, 'week', lastReadAt)
+  return {
+    lastReadAt,
+    postCount: new Set(reads.map(read => read.postSlug)).size,
+    dayStreak: dayStreak.current,
+    weekStreak: weekStreak.current,
+    longestDayStreak: dayStreak.longest,
+    longestWeekStreak: weekStreak.longest,
+  }
+}
+
+/**
+ * @returns the stats once the read at `readAt` is counted, without having to
+ * go back through all of their reads.
+ */
+function getNextStats(
+  stats: ReadingStats,
+  {readAt, isNewPost}: {readAt: Date; isNewPost: boolean},
+): ReadingStats {
+  const getRun = (run: number, gap: number) => {
+    if (gap <= 0) return run
+    return gap === 1 ? run + 1 : 1
+  }
+  const dayStreak = getRun(
+    stats.dayStreak,
+    differenceInCalendarDays(readAt, stats.lastReadAt),
+  )
+  const weekStreak = getRun(
+    stats.weekStreak,
+    differenceInCalendarWeeks(readAt, stats.lastReadAt, {weekStartsOn: 1}),
+  )
+  return {
+    lastReadAt: readAt > stats.lastReadAt ? readAt : stats.lastReadAt,
+    postCount: stats.postCount + (isNewPost ? 1 : 0),
+    dayStreak,
+    weekStreak,
+    longestDayStreak: Math.max(stats.longestDayStreak, dayStreak),
+    longestWeekStreak: Math.max(stats.longestWeekStreak, weekStreak),
+  }
+}
+
+/**
+ * @returns the keys for the streak and post count milestones they've reached.
+ */
+function getMilestoneKeys(stats: ReadingStats) {
+  return [
+    ...dayStreakMilestones
+      .filter(days => stats.longestDayStreak >= days)
+      .map(achievementKeys.dayStreak),
+    ...weekStreakMilestones
+      .filter(weeks => stats.longestWeekStreak >= weeks)
+      .map(achievementKeys.weekStreak),
+    ...postCountMilestones
+      .filter(count => stats.postCount >= count)
+      .map(achievementKeys.postCount),
+  ]
+}
+
+/**
+ * @returns their streaks as of now. The ones in their stats end with their
+ * last read, which may have been a while ago.
+ */
+function getCurrentStreaks(stats: ReadingStats | null, now: Date = new Date()) {
+  if (!stats) {
+    return {
+      dayStreak: {current: 0, longest: 0},
+      weekStreak: {current: 0, longest: 0},
+    }
+  }
+  const dayGap = differenceInCalendarDays(now, stats.lastReadAt)
+  const weekGap = differenceInCalendarWeeks(now, stats.lastReadAt, {
+    weekStartsOn: 1,
+  })
+  return {
+    dayStreak: {
+      current: dayGap <= 1 ? stats.dayStreak : 0,
+      longest: stats.longestDayStreak,
+    },
+    weekStreak: {
+      current: weekGap <= 1 ? stats.weekStreak : 0,
+      longest: stats.longestWeekStreak,
+    },
+  }
+}
+
+/**
+ * @returns the IDs of the users who read more than anyone else on their team.
+ * A tie means nobody on that team did.
+ */
+function getTopReaderIds(reads: Array<{userId: string; team: Team}>) {
+  const readers = new Map<string, {userId: string; team: Team; count: number}>()
+  for (const {userId, team} of reads) {
+    const count = (readers.get(userId)?.count ?? 0) + 1
+    readers.set(userId, {userId, team, count})
+  }
+  const byCount = Array.from(readers.values()).sort((a, b) => b.count - a.count)
+  return byCount
+    .filter(reader => {
+      const [top, runnerUp] = byCount.filter(({team}) => team === reader.team)
+      return top === reader && reader.count > (runnerUp?.count ?? 0)
+    })
+    .map(({userId}) => userId)
+}
+
+export {
+  dayStreakMilestones,
+  weekStreakMilestones,
+  postCountMilestones,
+  achievementKeys,
+  getAchievementInfo,
+  getStreaks,
+  getStatsFromReads,
+  getNextStats,
+  getMilestoneKeys,
+  getCurrentStreaks,
+  getTopReaderIds,
+}
+export type {AchievementInfo, ReadingStats}
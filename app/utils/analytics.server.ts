@@ -0,0 +1,198 @@
+// Read stats for /admin/analytics. Everything comes from PostRead and is
+// grouped in the database so we never pull every read into memory. It's cached
+// for a few minutes because nobody needs these numbers to the second.
+import {
+  addDays,
+  differenceInCalendarDays,
+  format,
+  isValid,
+  parseISO,
+  subDays,
+} from 'date-fns'
+import {Response} from 'remix'
+import type {Request, Team} from '~/types'
+import {prisma} from './prisma.server'
+import {cachified, lruCache} from './cache.server'
+import {getBlogMdxListItems} from './mdx'
+import {getUser} from './session.server'
+import {hasPermission} from './permissions'
+import {teams} from './misc'
+
+const defaultRangeDays = 30
+const maxRangeDays = 366
+
+// both days are included, formatted like 2021-10-20
+type DateRange = {from: string; to: string}
+
+type DailyPostReads = {day: string; postSlug: string; reads: number}
+
+function getDateRange(searchParams: URLSearchParams): DateRange {
+  const getDate = (name: string) => {
+    const value = searchParams.get(name)
+    const date = value ? parseISO(value) : null
+    return date && isValid(date) ? date : null
+  }
+  let to = getDate('to') ?? new Date()
+  let from = getDate('from') ?? subDays(to, defaultRangeDays - 1)
+  if (from > to) [from, to] = [to, from]
+  if (differenceInCalendarDays(to, from) >= maxRangeDays) {
+    from = subDays(to, maxRangeDays - 1)
+  }
+  return {from: format(from, 'yyyy-MM-dd'), to: format(to, 'yyyy-MM-dd')}
+}
+
+async function getDailyPostReads(start: Date, end: Date) {
+  type Row = {day: Date; postSlug: string; reads: number}
+  const rows =
+    (await prisma.$queryRaw`SELECT date_trunc('day', "createdAt") AS "day", "postSlug", COUNT(*)::int AS "reads" FROM "public"."PostRead" WHERE "createdAt" >= ${start} AND "createdAt" < ${end} GROUP BY 1, 2 ORDER BY 1, 2`) as Array<Row>
+  return rows.map(
+    (row): DailyPostReads => ({
+      day: format(row.day, 'yyyy-MM-dd'),
+      postSlug: row.postSlug,
+      reads: row.reads,
+    }),
+  )
+}
+
+async function getTeamReads(start: Date, end: Date) {
+  type Row = {team: Team; reads: number}
+  const rows =
+    (await prisma.$queryRaw`SELECT "public"."User"."team", COUNT(*)::int AS "reads" FROM "public"."PostRead" JOIN "public"."User" ON "public"."User"."id" = "public"."PostRead"."userId" WHERE "public"."PostRead"."createdAt" >= ${start} AND "public"."PostRead"."createdAt" < ${end} GROUP BY 1`) as Array<Row>
+  return new Map<Team, number>(
+    teams.map(team => [team, rows.find(row => row.team === team)?.reads ?? 0]),
+  )
+}
+
+/**
+ * @returns how many readers had their first read ever in the range. A reader
+ * is a user, or a client for the reads from before they signed in.
+ */
+async function getNewReaderCount(start: Date, end: Date) {
+  type Row = {count: number}
+  const [row] =
+    (await prisma.$queryRaw`SELECT COUNT(*)::int AS "count" FROM (SELECT COALESCE("userId", "clientId") FROM "public"."PostRead" WHERE COALESCE("userId", "clientId") IS NOT NULL GROUP BY 1 HAVING MIN("createdAt") >= ${start} AND MIN("createdAt") < ${end}) AS "firstReads"`) as Array<Row>
+  return row?.count ?? 0
+}
+
+async function getFreshReadAnalytics({from, to}: DateRange) {
+  const start = parseISO(from)
+  const end = addDays(parseISO(to), 1)
+  const where = {createdAt: {gte: start, lt: end}}
+
+  const [
+    postCounts,
+    userCounts,
+    clientCounts,
+    dailyPostReads,
+    teamReads,
+    newReaders,
+    posts,
+  ] = await Promise.all([
+    prisma.postRead.groupBy({by: ['postSlug'], _count: true, where}),
+    prisma.postRead.groupBy({
+      by: ['userId'],
+      _count: true,
+      where: {...where, userId: {not: null}},
+    }),
+    prisma.postRead.groupBy({
+      by: ['clientId'],
+      _count: true,
+      where: {...where, userId: null, clientId: {not: null}},
+    }),
+    getDailyPostReads(start, end),
+    getTeamReads(start, end),
+    getNewReaderCount(start, end),
+    getBlogMdxListItems({forceFresh: false}),
+  ])
+
+  const postsBySlug = new Map(posts.map(post => [post.slug, post]))
+  const categoryReads = new Map<string, number>()
+  for (const {postSlug, _count} of postCounts) {
+    const categories = postsBySlug.get(postSlug)?.frontmatter.categories ?? []
+    for (const category of categories) {
+      categoryReads.set(category, (categoryReads.get(category) ?? 0) + _count)
+    }
+  }
+
+  const dailyReads = new Map<string, number>()
+  for (let day = start; day < end; day = addDays(day, 1)) {
+    dailyReads.set(format(day, 'yyyy-MM-dd'), 0)
+  }
+  for (const {day, reads} of dailyPostReads) {
+    dailyReads.set(day, (dailyReads.get(day) ?? 0) + reads)
+  }
+
+  const sum = (counts: Array<{_count: number}>) =>
+    counts.reduce((total, {_count}) => total + _count, 0)
+  const byReads = (a: {reads: number}, b: {reads: number}) => b.reads - a.reads
+
+  return {
+    range: {from, to},
+    totalReads: sum(postCounts),
+    loggedInReads: sum(userCounts),
+    anonymousReads: sum(clientCounts),
+    newReaders,
+    returningReaders: userCounts.length + clientCounts.length - newReaders,
+    daily: Array.from(dailyReads, ([day, reads]) => ({day, reads})),
+    dailyPostReads,
+    posts: postCounts
+      .map(({postSlug, _count}) => ({
+        slug: postSlug,
+        title: postsBySlug.get(postSlug)?.frontmatter.title ?? postSlug,
+        reads: _count,
+      }))
+      .sort(byReads),
+    categories: Array.from(categoryReads, ([category, reads]) => ({
+      category,
+      reads,
+    })).sort(byReads),
+    teams: Array.from(teamReads, ([team, reads]) => ({team, reads})),
+  }
+}
+
+function getReadAnalytics(request: Request, range: DateRange) {
+  return cachified({
+    key: `analytics:reads:${range.from}:${range.to}`,
+    cache: lruCache,
+    request,
+    maxAge: 1000 * 60 * 5,
+    checkValue: (value: unknown) =>
+      typeof value === 'object' && value !== null && 'totalReads' in value,
+    getFreshValue: () => getFreshReadAnalytics(range),
+  })
+}
+
+function toCsvField(value: string | number) {
+  const text = String(value)
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+async function getReadAnalyticsCsvResponse(request: Request) {
+  const user = await getUser(request)
+  if (!hasPermission(user, 'viewAnalytics')) {
+    return new Response('Not found', {status: 404})
+  }
+
+  const range = getDateRange(new URL(request.url).searchParams)
+  const analytics = await getReadAnalytics(request, range)
+  const titles = new Map(analytics.posts.map(post => [post.slug, post.title]))
+  const rows = [
+    ['day', 'slug', 'title', 'reads'],
+    ...analytics.dailyPostReads.map(({day, postSlug, reads}) => [
+      day,
+      postSlug,
+      titles.get(postSlug) ?? postSlug,
+      reads,
+    ]),
+  ]
+  const csv = rows.map(row => row.map(toCsvField).join(',')).join('\n')
+  return new Response(csv, {
+    headers: {
+      'Content-Type': 'text/csv',
+      'Content-Disposition': `attachment; filename="reads-${range.from}-to-${range.to}.csv"`,
+      'Content-Length': String(Buffer.byteLength(csv)),
+    },
+  })
+}
+
+export {getDateRange, getReadAnalytics, getReadAnalyticsCsvResponse}
@@ -0,0 +1,333 @@
+// Describes how a Call Kent episode is stitched together: which segments it's
+// made of, what filters are applied to each segment, how the segments fade
+// into each other, and what the output looks like. getFfmpegArgs turns that
+// into the arguments for ffmpeg (see ffmpeg.server.ts).
+import type {AudioCut, AudioTrim} from './call-kent'
+import {getKeptRanges, isAudioEdited} from './call-kent'
+
+type AudioRecording = 'call' | 'response'
+
+type AudioFilter =
+  | {type: 'trim'; start: number; end: number | null}
+  // keeps only the given parts of the audio
+  | {type: 'select'; ranges: Array<AudioTrim>}
+  // removes the silence at the start of the audio
+  | {type: 'trimSilence'; threshold: number}
+  // shortens silences in the middle of the audio down to maxDuration seconds
+  | {type: 'shortenSilences'; threshold: number; maxDuration: number}
+  // normalizes to the pipeline's loudness target
+  | {type: 'normalize'}
+  | {type: 'highpass'; frequency: number}
+  | {type: 'volume'; gain: number}
+
+type AudioCrossfade = {
+  duration: number
+  fadeOut: boolean
+  fadeIn: boolean
+}
+
+type AudioSegment = {
+  // used as the filename and filter label, so it must be unique
+  name: string
+  source:
+    | {type: 'asset'; path: string}
+    | {type: 'recording'; recording: AudioRecording}
+  filters: Array<AudioFilter>
+  // how the previous segment fades into this one. Segments without one are
+  // simply concatenated.
+  crossfade?: AudioCrossfade
+}
+
+type AudioPipeline = {
+  segments: Array<AudioSegment>
+  // EBU R128 loudness target for the normalize filter
+  loudness: {integrated: number; range: number; truePeak: number}
+  output: {format: 'mp3' | 'm4a'; bitrate: string | null}
+}
+
+type AudioPreset = {
+  id: string
+  label: string
+  description: string
+  pipeline: AudioPipeline
+}
+
+const recordingFilters: Array<AudioFilter> = [
+  {type: 'trimSilence', threshold: -50},
+  {type: 'shortenSilences', threshold: -50, maxDuration: 1},
+  {type: 'normalize'},
+]
+
+function getSegments({
+  recordingFilters: filters,
+}: {
+  recordingFilters: Array<AudioFilter>
+}): Array<AudioSegment> {
+  // the music fades in and out, the recordings don't
+  const intoRecording = {duration: 1, fadeOut: true, fadeIn: false}
+  const intoMusic = {duration: 1, fadeOut: false, fadeIn: true}
+  return [
+    {
+      name: 'intro',
+      source: {type: 'asset', path: 'call-kent/intro.mp3'},
+      filters: [],
+    },
+    {
+      name: 'call',
+      source: {type: 'recording', recording: 'call'},
+      filters,
+      crossfade: intoRecording,
+    },
+    {
+      name: 'interstitial',
+      source: {type: 'asset', path: 'call-kent/interstitial.mp3'},
+      filters: [],
+      crossfade: intoMusic,
+    },
+    {
+      name: 'response',
+      source: {type: 'recording', recording: 'response'},
+      filters,
+      crossfade: intoRecording,
+    },
+    {
+      name: 'outro',
+      source: {type: 'asset', path: 'call-kent/outro.mp3'},
+      filters: [],
+      crossfade: intoMusic,
+    },
+  ]
+}
+
+const podcastLoudness = {integrated: -16, range: 11, truePeak: 0}
+
+const audioPresets: Array<AudioPreset> = [
+  {
+    id: 'standard',
+    label: 'Standard',
+    description: 'Removes long silences and evens out the volume.',
+    pipeline: {
+      segments: getSegments({recordingFilters}),
+      loudness: podcastLoudness,
+      output: {format: 'mp3', bitrate: null},
+    },
+  },
+  {
+    id: 'noisy',
+    label: 'Noisy recording',
+    description:
+      'Like standard, but cuts out low rumbles (like wind or traffic) first.',
+    pipeline: {
+      segments: getSegments({
+        recordingFilters: [
+          {type: 'highpass', frequency: 100},
+          ...recordingFilters,
+        ],
+      }),
+      loudness: podcastLoudness,
+      output: {format: 'mp3', bitrate: null},
+    },
+  },
+  {
+    id: 'high-quality',
+    label: 'High quality',
+    description: 'Like standard, but encoded as 192kbps AAC.',
+    pipeline: {
+      segments: getSegments({recordingFilters}),
+      loudness: podcastLoudness,
+      output: {format: 'm4a', bitrate: '192k'},
+    },
+  },
+]
+
+const defaultAudioPreset = audioPresets[0] as AudioPreset
+
+function getAudioPreset(id: string | null | undefined) {
+  return audioPresets.find(preset => preset.id === id) ?? defaultAudioPreset
+}
+
+function getErrorForAudioPreset(id: string | null) {
+  if (!id) return 'Audio preset is required'
+  if (!audioPresets.some(preset => preset.id === id)) {
+    return `There's no audio preset called "${id}"`
+  }
+  return null
+}
+
+function getEditFilter(edit: AudioTrim & {cuts?: Array<AudioCut>}) {
+  const ranges = getKeptRanges(edit)
+  const [range] = ranges
+  if (!range) throw new Error('The edit cuts out the whole recording')
+  const filter: AudioFilter =
+    ranges.length === 1 ? {type: 'trim', ...range} : {type: 'select', ranges}
+  return filter
+}
+
+/**
+ * @returns the pipeline with the edit (trim and cuts) applied to the given
+ * recording before any of its other filters
+ */
+function editRecording(
+  pipeline: AudioPipeline,
+  recording: AudioRecording,
+  edit: AudioTrim & {cuts?: Array<AudioCut>},
+): AudioPipeline {
+  if (!isAudioEdited(edit)) return pipeline
+  const editFilter = getEditFilter(edit)
+  return {
+    ...pipeline,
+    segments: pipeline.segments.map(segment =>
+      segment.source.type === 'recording' &&
+      segment.source.recording === recording
+        ? {...segment, filters: [editFilter, ...segment.filters]}
+        : segment,
+    ),
+  }
+}
+
+/**
+ * The pipeline for applying a caller's edit to their recording on its own
+ */
+function getRecordingEditPipeline(
+  edit: AudioTrim & {cuts?: Array<AudioCut>},
+): AudioPipeline {
+  return editRecording(
+    {
+      segments: [
+        {
+          name: 'call',
+          source: {type: 'recording', recording: 'call'},
+          filters: [],
+        },
+      ],
+      loudness: defaultAudioPreset.pipeline.loudness,
+      output: {format: 'mp3', bitrate: null},
+    },
+    'call',
+    edit,
+  )
+}
+
+function getFilter(
+  filter: AudioFilter,
+  loudness: AudioPipeline['loudness'],
+): string {
+  switch (filter.type) {
+    case 'trim': {
+      const end = filter.end === null ? '' : `:end=${filter.end}`
+      return `atrim=start=${filter.start}${end},asetpts=PTS-STARTPTS`
+    }
+    case 'select': {
+      const expression = filter.ranges
+        .map(({start, end}) =>
+          end === null ? `gte(t,${start})` : `between(t,${start},${end})`,
+        )
+        .join('+')
+      return `aselect='${expression}',asetpts=N/SR/TB`
+    }
+    case 'trimSilence':
+      return `silenceremove=1:0:${filter.threshold}dB`
+    case 'shortenSilences':
+      return `silenceremove=stop_periods=-1:stop_duration=${filter.maxDuration}:stop_threshold=${filter.threshold}dB`
+    case 'normalize':
+      return `loudnorm=I=${loudness.integrated}:LRA=${loudness.range}:TP=${loudness.truePeak}`
+    case 'highpass':
+      return `highpass=f=${filter.frequency}`
+    case 'volume':
+      return `volume=${filter.gain}dB`
+    default: {
+      // TypeScript makes sure every filter is handled, but a pipeline could
+      // still come from somewhere that isn't type checked.
+      const unknownFilter: never = filter
+      throw new Error(
+        `Unknown audio filter type: ${JSON.stringify(unknownFilter)}`,
+      )
+    }
+  }
+}
+
+function getCrossfade(crossfade: AudioCrossfade) {
+  const options = [`d=${crossfade.duration}`]
+  if (!crossfade.fadeOut) options.push('c1=nofade')
+  if (!crossfade.fadeIn) options.push('c2=nofade')
+  return `acrossfade=${options.join(':')}`
+}
+
+function getInputFilename(segment: AudioSegment) {
+  return `${segment.name}.mp3`
+}
+
+function getOutputFilename(pipeline: AudioPipeline) {
+  return `output.${pipeline.output.format}`
+}
+
+function getOutputContentType(pipeline: AudioPipeline) {
+  return pipeline.output.format === 'm4a' ? 'audio/mp4' : 'audio/mpeg'
+}
+
+function getFilterGraph(pipeline: AudioPipeline) {
+  const filters: Array<string> = []
+
+  const labels = pipeline.segments.map((segment, index) => {
+    if (!segment.filters.length) return `[${index}]`
+    const chain = segment.filters
+      .map(filter => getFilter(filter, pipeline.loudness))
+      .join(',')
+    // with only one segment, this is the output
+    const label = pipeline.segments.length > 1 ? `[${segment.name}]` : ''
+    filters.push(`[${index}]${chain}${label}`)
+    return label
+  })
+
+  const [firstLabel = '', ...restLabels] = labels
+  let previousLabel = firstLabel
+  restLabels.forEach((label, index) => {
+    const {crossfade} = pipeline.segments[index + 1] as AudioSegment
+    const join = crossfade ? getCrossfade(crossfade) : 'concat=n=2:v=0:a=1'
+    // ffmpeg uses the last unlabeled output as the output file
+    const isLast = index === restLabels.length - 1
+    const outputLabel = isLast ? '' : `[a${index + 1}]`
+    filters.push(`${previousLabel}${label}${join}${outputLabel}`)
+    previousLabel = outputLabel
+  })
+
+  return filters.join(';')
+}
+
+function getFfmpegArgs(pipeline: AudioPipeline) {
+  const names = pipeline.segments.map(segment => segment.name)
+  if (!names.length) throw new Error('An episode needs at least one segment')
+  if (new Set(names).size !== names.length) {
+    throw new Error(`Segment names must be unique but got ${names.join(', ')}`)
+  }
+
+  const filterGraph = getFilterGraph(pipeline)
+  const {bitrate} = pipeline.output
+  return [
+    ...pipeline.segments.flatMap(segment => ['-i', getInputFilename(segment)]),
+    ...(filterGraph ? ['-filter_complex', filterGraph] : []),
+    ...(bitrate ? ['-b:a', bitrate] : []),
+    getOutputFilename(pipeline),
+  ]
+}
+
+export type {
+  AudioCrossfade,
+  AudioFilter,
+  AudioPipeline,
+  AudioPreset,
+  AudioRecording,
+  AudioSegment,
+}
+export {
+  audioPresets,
+  defaultAudioPreset,
+  getAudioPreset,
+  getErrorForAudioPreset,
+  getFfmpegArgs,
+  getInputFilename,
+  getOutputContentType,
+  getOutputFilename,
+  getRecordingEditPipeline,
+  editRecording,
+}
@@ -0,0 +1,160 @@
+// Files that are too big to belong in postgres (like Call Kent recordings) live
+// in a blob store. During development and tests that's a directory on disk. In
+// production it's an S3-compatible bucket (we talk to it with plain fetch and
+// sign the requests ourselves so we don't need the whole AWS SDK for three
+// requests). Select the store with BLOB_STORE=local|s3 (it's required in
+// production).
+import nodePath from 'path'
+import crypto from 'crypto'
+import {promises as fs} from 'fs'
+import {getRequiredServerEnvVar} from './misc'
+
+type BlobStore = {
+  put: (key: string, data: Buffer, contentType: string) => Promise<void>
+  get: (key: string) => Promise<Buffer | null>
+  del: (key: string) => Promise<void>
+}
+
+function createLocalBlobStore(): BlobStore {
+  const rootDir = nodePath.resolve(
+    process.env.BLOB_STORE_DIR ?? nodePath.join(process.cwd(), '.blobs'),
+  )
+
+  function getFilePath(key: string) {
+    const filePath = nodePath.resolve(rootDir, key)
+    if (!filePath.startsWith(`${rootDir}${nodePath.sep}`)) {
+      throw new Error(`Invalid blob key: ${key}`)
+    }
+    return filePath
+  }
+
+  return {
+    async put(key, data) {
+      const filePath = getFilePath(key)
+      await fs.mkdir(nodePath.dirname(filePath), {recursive: true})
+      await fs.writeFile(filePath, data)
+    },
+    async get(key) {
+      try {
+        return await fs.readFile(getFilePath(key))
+      } catch (error: unknown) {
+        if ((error as {code?: string}).code === 'ENOENT') return null
+        throw error
+      }
+    },
+    async del(key) {
+      await fs.rm(getFilePath(key), {force: true})
+    },
+  }
+}
+
+function createS3BlobStore(): BlobStore {
+  const endpoint = getRequiredServerEnvVar('S3_ENDPOINT').replace(/\/$/, '')
+  const bucket = getRequiredServerEnvVar('S3_BUCKET')
+  const region = getRequiredServerEnvVar('S3_REGION')
+  const accessKeyId = getRequiredServerEnvVar('S3_ACCESS_KEY_ID')
+  const secretAccessKey = getRequiredServerEnvVar('S3_SECRET_ACCESS_KEY')
+
+  const sha256 = (data: string | Buffer) =>
+    crypto.createHash('sha256').update(data).digest('hex')
+  const hmac = (key: string | Buffer, data: string) =>
+    crypto.createHmac('sha256', key).update(data).digest()
+
+  // https://docs.aws.amazon.com/AmazonS3/latest/API/sig-v4-header-based-auth.html
+  function s3Fetch(
+    method: 'GET' | 'PUT' | 'DELETE',
+    key: string,
+    {body, contentType}: {body?: Buffer; contentType?: string} = {},
+  ) {
+    const encodedKey = key.split('/').map(encodeURIComponent).join('/')
+    const url = new URL(`${endpoint}/${bucket}/${encodedKey}`)
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '')
+    const dateStamp = amzDate.slice(0, 8)
+    const payloadHash = sha256(body ?? '')
+
+    const headers: Record<string, string> = {
+      host: url.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+    }
+    if (contentType) headers['content-type'] = contentType
+    const signedHeaders = Object.keys(headers).sort()
+
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      '',
+      signedHeaders.map(name => `${name}:${headers[name]}\n`).join(''),
+      signedHeaders.join(';'),
+      payloadHash,
+    ].join('\n')
+    const scope = `${dateStamp}/${region}/s3/aws4_request`
+    const stringToSign = [
+      'AWS4-HMAC-SHA256',
+      amzDate,
+      scope,
+      sha256(canonicalRequest),
+    ].join('\n')
+    const signingKey = hmac(
+      hmac(hmac(hmac(`AWS4${secretAccessKey}`, dateStamp), region), 's3'),
+      'aws4_request',
+    )
+    const signature = hmac(signingKey, stringToSign).toString('hex')
+    headers.authorization = `AWS4-HMAC-SHA256 Credential=${accessKeyId}/${scope}, SignedHeaders=${signedHeaders.join(
+      ';',
+    )}, Signature=${signature}`
+
+    return fetch(url.toString(), {method, headers, body})
+  }
+
+  async function assertOk(response: Response, description: string) {
+    if (response.ok) return
+    throw new Error(
+      `S3 ${description} failed with ${
+        response.status
+      }: ${await response.text()}`,
+    )
+  }
+
+  return {
+    async put(key, data, contentType) {
+      const response = await s3Fetch('PUT', key, {body: data, contentType})
+      await assertOk(response, `PUT ${key}`)
+    },
+    async get(key) {
+      const response = await s3Fetch('GET', key)
+      if (response.status === 404) return null
+      await assertOk(response, `GET ${key}`)
+      return Buffer.from(await response.arrayBuffer())
+    },
+    async del(key) {
+      const response = await s3Fetch('DELETE', key)
+      // S3 responds with a 204 whether the object existed or not
+      await assertOk(response, `DELETE ${key}`)
+    },
+  }
+}
+
+function getBlobStore(): BlobStore {
+  // a directory on disk doesn't survive a deploy or get shared between
+  // regions, so production has to pick its store on purpose
+  if (!process.env.BLOB_STORE && process.env.NODE_ENV === 'production') {
+    throw new Error('BLOB_STORE must be set in production')
+  }
+  const storeName = process.env.BLOB_STORE ?? 'local'
+  switch (storeName) {
+    case 'local':
+      return createLocalBlobStore()
+    case 's3':
+      return createS3BlobStore()
+    default:
+      throw new Error(
+        `BLOB_STORE must be "local" or "s3" but it's "${storeName}"`,
+      )
+  }
+}
+
+const blobStore = getBlobStore()
+
+export {blobStore}
+export type {BlobStore}
@@ -8,6 +8,7 @@ import {getSession} from './session.server'
 import {filterPosts} from './blog'
 import {getClientSession} from './client.server'
 import {cachified, lruCache} from './cache.server'
+import {getBookmarkedSlugs} from './reading-list.server'
 
 async function getBlogRecommendations(
   request: Request,
@@ -73,6 +74,18 @@ async function getBlogRecommendations(
     exclude = [...exclude, ...bestMatchRecommendations.map(({slug}) => slug)]
   }
 
+  // they've already said they want to read the posts on their reading list
+  if (user) {
+    const bookmarkedSlugs = await getBookmarkedSlugs(user.id)
+    const readingListRecommendations = shuffle(
+      recommendablePosts.filter(
+        ({slug}) => bookmarkedSlugs.includes(slug) && !exclude.includes(slug),
+      ),
+    ).slice(0, limitPerGroup)
+    recommendations.push(...readingListRecommendations)
+    exclude = [...exclude, ...readingListRecommendations.map(({slug}) => slug)]
+  }
+
   // get most popular posts
   const mostPopularRecommendationSlugs = await getMostPopularPostSlugs({
     // get 4x the limit so we can have a little randomness
@@ -99,8 +112,8 @@ async function getBlogRecommendations(
     recommendations.push(...completelyRandomRecommendations)
   }
 
-  // then mix them up
-  return shuffle(recommendations)
+  // then mix them up (the reading list can put us over the limit)
+  return shuffle(recommendations).slice(0, limit)
 }
 
 async function getMostPopularPostSlugs({
@@ -172,6 +185,48 @@ async function getReaderCount(request: Request) {
   })
 }
 
+/**
+ * Each team's reads (on the given post, or all of them) and how they rank.
+ * The ranking is recent reads per active member so the size of a team doesn't
+ * decide who's winning.
+ */
+async function getFreshBlogReadRankings(slug?: string) {
+  const rawRankingData = await Promise.all(
+    teams.map(async function getRankingsForTeam(
+      team,
+    ): Promise<{team: Team; totalReads: number; ranking: number}> {
+      const totalReads = await prisma.postRead.count({
+        where: {
+          postSlug: slug,
+          user: {team},
+        },
+      })
+      const activeMembers = await getActiveMembers(team)
+      const recentReads = await getRecentReads(slug, team)
+      let ranking = 0
+      if (activeMembers) {
+        ranking = Number(recentReads / activeMembers)
+      }
+      return {team, totalReads, ranking}
+    }),
+  )
+  const rankings = rawRankingData.map(r => r.ranking)
+  const maxRanking = Math.max(...rankings)
+  const minRanking = Math.min(...rankings)
+  const rankPercentages = rawRankingData.map(({team, totalReads, ranking}) => {
+    return {
+      team,
+      totalReads,
+      ranking,
+      percent: Number(
+        ((ranking - minRanking) / (maxRanking - minRanking || 1)).toFixed(2),
+      ),
+    }
+  })
+
+  return rankPercentages
+}
+
 async function getBlogReadRankings(request: Request, slug?: string) {
   const key = slug ? `blog:${slug}:rankings` : `blog:rankings`
   const rankingObjs = await cachified({
@@ -181,46 +236,7 @@ async function getBlogReadRankings(request: Request, slug?: string) {
     checkValue: (value: unknown) =>
       Array.isArray(value) &&
       value.every(v => typeof v === 'object' && 'team' in v),
-    getFreshValue: async () => {
-      const rawRankingData = await Promise.all(
-        teams.map(async function getRankingsForTeam(
-          team,
-        ): Promise<{team: Team; totalReads: number; ranking: number}> {
-          const totalReads = await prisma.postRead.count({
-            where: {
-              postSlug: slug,
-              user: {team},
-            },
-          })
-          const activeMembers = await getActiveMembers(team)
-          const recentReads = await getRecentReads(slug, team)
-          let ranking = 0
-          if (activeMembers) {
-            ranking = Number(recentReads / activeMembers)
-          }
-          return {team, totalReads, ranking}
-        }),
-      )
-      const rankings = rawRankingData.map(r => r.ranking)
-      const maxRanking = Math.max(...rankings)
-      const minRanking = Math.min(...rankings)
-      const rankPercentages = rawRankingData.map(
-        ({team, totalReads, ranking}) => {
-          return {
-            team,
-            totalReads,
-            ranking,
-            percent: Number(
-              ((ranking - minRanking) / (maxRanking - minRanking || 1)).toFixed(
-                2,
-              ),
-            ),
-          }
-        },
-      )
-
-      return rankPercentages
-    },
+    getFreshValue: () => getFreshBlogReadRankings(slug),
   })
 
   return (
@@ -266,6 +282,7 @@ async function getActiveMembers(team: Team) {
 export {
   getBlogRecommendations,
   getBlogReadRankings,
+  getFreshBlogReadRankings,
   getTotalPostReads,
   getReaderCount,
 }
@@ -4,6 +4,7 @@ import type {Timings} from './metrics.server'
 import {time} from './metrics.server'
 import {getErrorMessage} from './misc'
 import {getUser} from './session.server'
+import {hasPermission} from './permissions'
 
 declare global {
   // This preserves the LRU cache during development
@@ -188,7 +189,7 @@ async function cachified<
 async function shouldForceFresh(request: Request) {
   return (
     new URL(request.url).searchParams.has('fresh') &&
-    (await getUser(request))?.role === 'ADMIN'
+    hasPermission(await getUser(request), 'purgeCache')
   )
 }
 
@@ -1,4 +1,4 @@
-import type {CallKentEpisode} from '~/types'
+import type {Call, CallKentEpisode, CallStatus} from '~/types'
 
 function getErrorForDescription(description: string | null) {
   if (!description) return `Description is required`
@@ -47,6 +47,141 @@ function getErrorForAudio(audio: string | null) {
   return null
 }
 
+// the browser measures the duration of the recording for us, but it's just a
+// nice to have so we don't fail the submission if it's missing or nonsense.
+function getDurationFromFormValue(duration: string | null) {
+  const seconds = Number(duration)
+  return duration && Number.isFinite(seconds) && seconds > 0 ? seconds : null
+}
+
+function getCallRecordingUrl(call: Pick<Call, 'id'>) {
+  return `/_calls/recording?callId=${encodeURIComponent(call.id)}`
+}
+
+// seconds to cut off the start and end of a recording. A null end means the
+// recording plays to the end.
+type AudioTrim = {start: number; end: number | null}
+
+function getTrimFromFormValues(
+  start: string | null,
+  end: string | null,
+): AudioTrim {
+  // NaN is left for getErrorForTrim to reject
+  return {start: start ? Number(start) : 0, end: end ? Number(end) : null}
+}
+
+function getErrorForTrim(start: string | null, end: string | null) {
+  const trim = getTrimFromFormValues(start, end)
+  if (!Number.isFinite(trim.start) || trim.start < 0) {
+    return 'The start must be a positive number of seconds'
+  }
+  if (trim.end === null) return null
+  if (!Number.isFinite(trim.end) || trim.end <= trim.start) {
+    return 'The end must be after the start'
+  }
+  return null
+}
+
+// a part of a recording (in seconds) to cut out, like a stumble
+type AudioCut = {start: number; end: number}
+
+// what a caller did to their recording in the editor. All the times are
+// relative to the original recording.
+type AudioEdit = AudioTrim & {cuts: Array<AudioCut>}
+
+const noAudioEdit: AudioEdit = {start: 0, end: null, cuts: []}
+
+function isAudioEdited(edit: AudioTrim & {cuts?: Array<AudioCut>}) {
+  return edit.start > 0 || edit.end !== null || Boolean(edit.cuts?.length)
+}
+
+/**
+ * @returns the parts of the recording that are left after the edit
+ */
+function getKeptRanges({
+  start,
+  end,
+  cuts = [],
+}: AudioTrim & {cuts?: Array<AudioCut>}): Array<AudioTrim> {
+  const ranges: Array<AudioTrim> = []
+  let rangeStart = start
+  for (const cut of [...cuts].sort((a, b) => a.start - b.start)) {
+    if (end !== null && cut.start >= end) break
+    if (cut.end <= rangeStart) continue
+    if (cut.start > rangeStart) ranges.push({start: rangeStart, end: cut.start})
+    rangeStart = cut.end
+  }
+  if (end === null || rangeStart < end) {
+    ranges.push({start: rangeStart, end})
+  }
+  return ranges
+}
+
+function getEditedDuration(edit: AudioEdit, duration: number) {
+  return getKeptRanges(edit).reduce(
+    (total, range) =>
+      total +
+      Math.max(0, Math.min(range.end ?? duration, duration) - range.start),
+    0,
+  )
+}
+
+const isSeconds = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0
+
+function parseAudioEdit(value: string | null): AudioEdit | null {
+  if (!value) return noAudioEdit
+  try {
+    const {start, end, cuts} = JSON.parse(value) as Partial<
+      Record<keyof AudioEdit, unknown>
+    >
+    if (!isSeconds(start)) return null
+    if (end !== null && (!isSeconds(end) || end <= start)) return null
+    if (!Array.isArray(cuts)) return null
+    const validCuts = cuts.filter(
+      (cut: Partial<Record<keyof AudioCut, unknown>>) =>
+        isSeconds(cut.start) && isSeconds(cut.end) && cut.end > cut.start,
+    ) as Array<AudioCut>
+    if (validCuts.length !== cuts.length) return null
+
+    const edit: AudioEdit = {start, end, cuts: validCuts}
+    // there has to be something left to listen to
+    return getKeptRanges(edit).length ? edit : null
+  } catch {
+    return null
+  }
+}
+
+function getErrorForAudioEdit(value: string | null) {
+  if (!parseAudioEdit(value)) return 'The edits to the recording are invalid'
+  return null
+}
+
+function getEpisodeDraftAudioUrl(
+  job: {id: string; updatedAt: Date | string},
+  audio: 'episode' | 'response',
+) {
+  const searchParams = new URLSearchParams({
+    jobId: job.id,
+    audio,
+    // the episode audio changes every time the response is trimmed
+    v: new Date(job.updatedAt).getTime().toString(),
+  })
+  return `/_calls/episode-draft?${searchParams.toString()}`
+}
+
+const callStatusLabels: Record<CallStatus, string> = {
+  SUBMITTED: 'Submitted',
+  IN_REVIEW: 'In review',
+  ANSWERED: 'Answered',
+  DECLINED: 'Declined',
+}
+
+// once Kent has answered or declined a call, there's nothing left to do with it
+function isCallClosed(call: Pick<Call, 'status'>) {
+  return call.status === 'ANSWERED' || call.status === 'DECLINED'
+}
+
 export type Params = {
   season: string
   episode: string
@@ -72,8 +207,22 @@ function getEpisodePath(
   return `/calls/${seasonNumber}/${episodeNumber}/${episode.slug}`
 }
 
+export type {AudioTrim, AudioCut, AudioEdit}
 export {
   getEpisodePath,
+  callStatusLabels,
+  isCallClosed,
+  getCallRecordingUrl,
+  getEpisodeDraftAudioUrl,
+  getTrimFromFormValues,
+  getErrorForTrim,
+  noAudioEdit,
+  isAudioEdited,
+  getKeptRanges,
+  getEditedDuration,
+  parseAudioEdit,
+  getErrorForAudioEdit,
+  getDurationFromFormValue,
   getEpisodeFromParams,
   getErrorForAudio,
   getErrorForTitle,
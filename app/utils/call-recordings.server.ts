@@ -0,0 +1,142 @@
+import crypto from 'crypto'
+import {Response} from 'remix'
+import type {Call, Request} from '~/types'
+import type {AudioEdit} from './call-kent'
+import {isAudioEdited, noAudioEdit} from './call-kent'
+import {blobStore} from './blob-store.server'
+import {editRecordingAudio} from './ffmpeg.server'
+import {prisma} from './prisma.server'
+import {getUser} from './session.server'
+import {hasPermission} from './permissions'
+
+type CallRecording = Pick<
+  Call,
+  'audioKey' | 'audioContentType' | 'audioSize' | 'audioDuration'
+>
+
+/**
+ * The recorder gives us audio as a data URL (data:audio/webm;base64,....)
+ * @returns the content type and the decoded audio
+ */
+function parseAudioDataUrl(dataUrl: string) {
+  const match =
+    /^data:(?<contentType>[^;,]+)(?:;[^,]*)?;base64,(?<data>.*)$/s.exec(dataUrl)
+  const {contentType, data} = match?.groups ?? {}
+  if (!contentType || !data) {
+    throw new Error('Audio must be a base64 encoded data URL')
+  }
+  return {contentType, audio: Buffer.from(data, 'base64')}
+}
+
+/**
+ * Applies the edit the caller made in the recorder (if they made one) so the
+ * recording we keep is exactly what they heard when they previewed it.
+ * @returns the content type and the edited audio
+ */
+async function getEditedAudio(dataUrl: string, edit: AudioEdit) {
+  const recording = parseAudioDataUrl(dataUrl)
+  if (!isAudioEdited(edit)) return recording
+  return {
+    contentType: 'audio/mpeg',
+    audio: await editRecordingAudio(recording.audio, edit),
+  }
+}
+
+function getCallRecordingKey() {
+  return `calls/${crypto.randomUUID()}`
+}
+
+async function saveCallRecording(
+  dataUrl: string,
+  {duration, edit = noAudioEdit}: {duration: number | null; edit?: AudioEdit},
+): Promise<CallRecording> {
+  const {contentType, audio} = await getEditedAudio(dataUrl, edit)
+  const key = getCallRecordingKey()
+  await blobStore.put(key, audio, contentType)
+  return {
+    audioKey: key,
+    audioContentType: contentType,
+    audioSize: audio.length,
+    audioDuration: duration,
+  }
+}
+
+/**
+ * Calls recorded before we had the blob store keep their audio in the "base64"
+ * column until prisma/move-call-recordings.ts has copied it over, so we fall
+ * back to that if the blob store doesn't have it yet.
+ */
+async function getStoredCallRecording(call: Pick<Call, 'id' | 'audioKey'>) {
+  const audio = await blobStore.get(call.audioKey)
+  if (audio) return audio
+
+  const legacyCall = await prisma.call.findUnique({
+    where: {id: call.id},
+    select: {base64: true},
+  })
+  const data = legacyCall?.base64?.split(',')[1]
+  return data ? Buffer.from(data, 'base64') : null
+}
+
+async function getCallRecordingAudio(call: Pick<Call, 'id' | 'audioKey'>) {
+  const audio = await getStoredCallRecording(call)
+  if (!audio) {
+    throw new Error(
+      `The recording for call ${call.id} (${call.audioKey}) is missing`,
+    )
+  }
+  return audio
+}
+
+async function deleteCallRecording(call: Pick<Call, 'audioKey'>) {
+  await blobStore.del(call.audioKey)
+}
+
+/**
+ * Deletes the call along with its recording
+ */
+async function deleteCall(callId: string) {
+  const call = await prisma.call.delete({
+    where: {id: callId},
+    select: {audioKey: true},
+  })
+  await deleteCallRecording(call)
+}
+
+// the recording is only available to the person who made the call and the
+// people who triage calls
+async function getCallRecordingResponse(request: Request) {
+  const callId = new URL(request.url).searchParams.get('callId')
+  const user = await getUser(request)
+  if (!callId || !user) return new Response('Not found', {status: 404})
+
+  const call = await prisma.call.findFirst({
+    where: hasPermission(user, 'triageCalls')
+      ? {id: callId}
+      : {id: callId, userId: user.id},
+    select: {id: true, audioKey: true, audioContentType: true},
+  })
+  if (!call) return new Response('Not found', {status: 404})
+
+  const audio = await getStoredCallRecording(call)
+  if (!audio) return new Response('Not found', {status: 404})
+
+  return new Response(audio, {
+    headers: {
+      'Content-Type': call.audioContentType,
+      'Content-Length': String(audio.length),
+      // the recording for a given call never changes
+      'Cache-Control': 'private, max-age=31536000, immutable',
+    },
+  })
+}
+
+export {
+  parseAudioDataUrl,
+  getEditedAudio,
+  saveCallRecording,
+  getCallRecordingAudio,
+  deleteCallRecording,
+  deleteCall,
+  getCallRecordingResponse,
+}
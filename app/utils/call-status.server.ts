@@ -0,0 +1,86 @@
+// A call is SUBMITTED when the caller records it, IN_REVIEW once Kent starts
+// recording a response, and then either ANSWERED (with the episode it was
+// answered in) or DECLINED. Callers get an email when their call is answered
+// or declined.
+import {prisma} from './prisma.server'
+import {sendCallStatusEmail} from './send-email.server'
+import {getErrorMessage} from './misc'
+
+async function markCallInReview(callId: string) {
+  // a call that's already been answered or declined stays that way
+  await prisma.call.updateMany({
+    where: {id: callId, status: 'SUBMITTED'},
+    data: {status: 'IN_REVIEW'},
+  })
+}
+
+async function closeCall({
+  callId,
+  status,
+  note,
+  episodePath,
+  domainUrl,
+}: {
+  callId: string
+  status: 'ANSWERED' | 'DECLINED'
+  note: string | null
+  episodePath: string | null
+  domainUrl: string
+}) {
+  const call = await prisma.call.update({
+    where: {id: callId},
+    data: {status, statusNote: note, episodePath},
+    select: {title: true, user: {select: {email: true, firstName: true}}},
+  })
+  // the call has been updated either way, so a failed email shouldn't fail
+  // whatever answered or declined the call.
+  try {
+    await sendCallStatusEmail({
+      emailAddress: call.user.email,
+      firstName: call.user.firstName,
+      callTitle: call.title,
+      status,
+      note,
+      link: `${domainUrl}${episodePath ?? `/calls/record/${callId}`}`,
+    })
+  } catch (error: unknown) {
+    console.error(
+      `Failed to email the caller about call ${callId}:`,
+      getErrorMessage(error),
+    )
+  }
+}
+
+function answerCall({
+  callId,
+  note,
+  episodePath,
+  domainUrl,
+}: {
+  callId: string
+  note: string | null
+  episodePath: string | null
+  domainUrl: string
+}) {
+  return closeCall({callId, status: 'ANSWERED', note, episodePath, domainUrl})
+}
+
+function declineCall({
+  callId,
+  note,
+  domainUrl,
+}: {
+  callId: string
+  note: string | null
+  domainUrl: string
+}) {
+  return closeCall({
+    callId,
+    status: 'DECLINED',
+    note,
+    episodePath: null,
+    domainUrl,
+  })
+}
+
+export {markCallInReview, answerCall, declineCall}
@@ -0,0 +1,55 @@
+// All of our content (MDX, workshop YAML, talks, testimonials) lives in the
+// `content/` directory of the repo. In production we get it from the GitHub
+// API so we don't need to redeploy to publish content. During development you
+// can set CONTENT_SOURCE=local to read straight from the `content/` directory
+// on disk instead (no GitHub API or mocks required).
+import type {GitHubFile} from '~/types'
+import * as github from './github.server'
+import * as local from './local-content.server'
+
+type ContentListItem = {
+  name: string
+  path: string
+  sha: string
+  type: string
+}
+
+type ContentSource = {
+  downloadMdxFileOrDirectory: (
+    relativeMdxFileOrDirectory: string,
+  ) => Promise<Array<GitHubFile>>
+  downloadDirList: (path: string) => Promise<Array<ContentListItem>>
+  downloadFile: (path: string) => Promise<string>
+}
+
+const contentSources: Record<'github' | 'local', ContentSource> = {
+  github,
+  local,
+}
+
+function getContentSource(): ContentSource {
+  const sourceName = process.env.CONTENT_SOURCE ?? 'github'
+  if (sourceName !== 'github' && sourceName !== 'local') {
+    throw new Error(
+      `CONTENT_SOURCE must be "github" or "local" but it's "${sourceName}"`,
+    )
+  }
+  return contentSources[sourceName]
+}
+
+const contentSource = getContentSource()
+
+function downloadMdxFileOrDirectory(relativeMdxFileOrDirectory: string) {
+  return contentSource.downloadMdxFileOrDirectory(relativeMdxFileOrDirectory)
+}
+
+function downloadDirList(path: string) {
+  return contentSource.downloadDirList(path)
+}
+
+function downloadFile(path: string) {
+  return contentSource.downloadFile(path)
+}
+
+export {downloadMdxFileOrDirectory, downloadDirList, downloadFile}
+export type {ContentListItem, ContentSource}
@@ -0,0 +1,188 @@
+// Everything we know about a user, so they can download it from /me. Call
+// recordings can be big, so the export is streamed one call at a time rather
+// than putting all the audio in memory at once.
+import {Readable} from 'stream'
+import {Response} from 'remix'
+import type {Await, Request, User} from '~/types'
+import {prisma} from './prisma.server'
+import {getUser} from './session.server'
+import {getUserInfo} from './user-info.server'
+import {getBlogMdxListItems} from './mdx'
+import {blobStore} from './blob-store.server'
+import {getErrorMessage} from './misc'
+
+/**
+ * @returns the call with its recording, or a note about why it couldn't be
+ * exported so one bad recording doesn't break the whole export.
+ */
+async function getCallExport(callId: string) {
+  try {
+    const call = await prisma.call.findUnique({where: {id: callId}})
+    if (!call) return null
+    const {base64, audioKey, ...callData} = call
+    const audio = await blobStore.get(audioKey)
+    return {
+      ...callData,
+      // calls from before the blob store may still have their data URL around
+      recording: audio
+        ? `data:${call.audioContentType};base64,${audio.toString('base64')}`
+        : base64,
+    }
+  } catch (error: unknown) {
+    console.error(`Failed to export call ${callId}:`, getErrorMessage(error))
+    return {
+      id: callId,
+      exportError: `This call couldn't be exported. Please try again later.`,
+    }
+  }
+}
+
+async function getAccountExport(user: User, request: Request) {
+  const [
+    userInfo,
+    posts,
+    postReads,
+    readingProgress,
+    sessions,
+    passkeys,
+    achievements,
+    rejectedReads,
+    bookmarks,
+  ] = await Promise.all([
+    getUserInfo(user, {request}),
+    getBlogMdxListItems({request}),
+    prisma.postRead.findMany({
+      where: {userId: user.id},
+      select: {postSlug: true, createdAt: true},
+      orderBy: {createdAt: 'asc'},
+    }),
+    prisma.readingProgress.findMany({
+      where: {userId: user.id},
+      select: {postSlug: true, percent: true, updatedAt: true},
+    }),
+    prisma.session.findMany({
+      where: {userId: user.id},
+      select: {
+        createdAt: true,
+        lastSeenAt: true,
+        expirationDate: true,
+        userAgent: true,
+        region: true,
+      },
+    }),
+    prisma.passkey.findMany({
+      where: {userId: user.id},
+      select: {name: true, createdAt: true, lastUsedAt: true},
+    }),
+    prisma.achievement.findMany({
+      where: {userId: user.id},
+      select: {key: true, createdAt: true},
+    }),
+    prisma.rejectedPostRead.findMany({
+      where: {userId: user.id},
+      select: {
+        postSlug: true,
+        reason: true,
+        userAgent: true,
+        ip: true,
+        createdAt: true,
+      },
+    }),
+    prisma.bookmark.findMany({
+      where: {userId: user.id},
+      select: {postSlug: true, createdAt: true},
+    }),
+  ])
+  const postTitles = new Map(
+    posts.map(post => [post.slug, post.frontmatter.title ?? post.slug]),
+  )
+
+  return {
+    exportedAt: new Date().toISOString(),
+    user,
+    convertKit: userInfo.convertKit,
+    discord: userInfo.discord,
+    sessions,
+    passkeys,
+    achievements,
+    rejectedReads,
+    postReads: postReads.map(read => ({
+      ...read,
+      postTitle: postTitles.get(read.postSlug) ?? null,
+    })),
+    readingProgress: readingProgress.map(progress => ({
+      ...progress,
+      postTitle: postTitles.get(progress.postSlug) ?? null,
+    })),
+    bookmarks: bookmarks.map(bookmark => ({
+      ...bookmark,
+      postTitle: postTitles.get(bookmark.postSlug) ?? null,
+    })),
+  }
+}
+
+async function* getDataExportChunks({
+  account,
+  callIds,
+}: Await<ReturnType<typeof getDataExport>>) {
+  // the account is small enough to serialize all at once. The calls are
+  // written into the same object one by one.
+  yield `${JSON.stringify(account).slice(0, -1)},"calls":[`
+
+  let separator = ''
+  for (const callId of callIds) {
+    // one call at a time so we only have a single recording in memory at once
+    // eslint-disable-next-line no-await-in-loop
+    const call = await getCallExport(callId)
+    if (!call) continue
+    yield `${separator}${JSON.stringify(call)}`
+    separator = ','
+  }
+  yield ']}'
+}
+
+// everything but the recordings, which are loaded as they're streamed
+async function getDataExport(user: User, request: Request) {
+  const [account, calls] = await Promise.all([
+    getAccountExport(user, request),
+    prisma.call.findMany({
+      where: {userId: user.id},
+      select: {id: true},
+      orderBy: {createdAt: 'asc'},
+    }),
+  ])
+  return {account, callIds: calls.map(({id}) => id)}
+}
+
+async function getDataExportResponse(request: Request) {
+  const user = await getUser(request)
+  if (!user) return new Response('Unauthorized', {status: 401})
+
+  // once we start streaming the status is sent and there's no taking it back,
+  // so we make sure we've got the data before we respond.
+  const dataExport = await getDataExport(user, request).catch(
+    (error: unknown) => {
+      console.error(
+        `Failed to export the data for ${user.id}:`,
+        getErrorMessage(error),
+      )
+      return null
+    },
+  )
+  if (!dataExport) {
+    return new Response(
+      'Something went wrong exporting your data. Please try again later.',
+      {status: 500},
+    )
+  }
+
+  return new Response(Readable.from(getDataExportChunks(dataExport)), {
+    headers: {
+      'Content-Type': 'application/json',
+      'Content-Disposition': `attachment; filename="kentcdodds.com-data.json"`,
+      'Cache-Control': 'no-store',
+    },
+  })
+}
+
+export {getDataExportResponse}
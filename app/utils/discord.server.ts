@@ -119,20 +119,44 @@ async function updateDiscordRolesForUser(
   })
 
   const teamRole = discordRoleTeams[user.team]
+  // people can only be on one team, but an admin may have moved them
+  const otherTeamRoles = Object.values(discordRoleTeams).filter(
+    role => role !== teamRole,
+  )
 
-  if (!discordMember.roles.includes(teamRole)) {
+  if (
+    !discordMember.roles.includes(teamRole) ||
+    discordMember.roles.some(role => otherTeamRoles.includes(role))
+  ) {
     await fetchJsonAsDiscordBot(
       `guilds/${DISCORD_GUILD_ID}/members/${discordMember.user.id}`,
       {
         method: 'PATCH',
         body: JSON.stringify({
-          roles: Array.from(new Set([...discordMember.roles, teamRole])),
+          roles: Array.from(
+            new Set([
+              ...discordMember.roles.filter(
+                role => !otherTeamRoles.includes(role),
+              ),
+              teamRole,
+            ]),
+          ),
         }),
       },
     )
   }
 }
 
+/**
+ * Makes sure the user's discord roles match their team
+ */
+async function syncDiscordMember(user: User) {
+  if (!user.discordId) return null
+  const discordMember = await getMember(user.discordId)
+  await updateDiscordRolesForUser(discordMember, user)
+  return discordMember
+}
+
 async function addUserToDiscordServer(
   discordUser: DiscordUser,
   discordToken: DiscordToken,
@@ -175,4 +199,4 @@ async function connectDiscord({
   return discordMember
 }
 
-export {connectDiscord, getDiscordUser, getMember}
+export {connectDiscord, syncDiscordMember, getDiscordUser, getMember}
@@ -0,0 +1,135 @@
+// People can change the email address they sign in with from /me. We email a
+// link to the new address and only change the email once that link is used, so
+// nobody can take over an email address that isn't theirs. The old address
+// gets a heads up once it's done.
+import type {User} from '~/types'
+import {encrypt, decrypt} from './encryption.server'
+import {prisma, getUserByEmail, linkExpirationTime} from './prisma.server'
+import {
+  sendEmailChangeConfirmationEmail,
+  sendEmailChangedEmail,
+} from './send-email.server'
+import {updateConvertKitSubscriberEmail} from '../convertkit/convertkit.server'
+import {getErrorMessage} from './misc'
+
+const emailChangeSearchParam = 'token'
+
+type EmailChangePayload = {
+  emailChangeId: string
+}
+
+function getPendingEmailChange(userId: string) {
+  return prisma.emailChange.findFirst({
+    where: {userId, expirationDate: {gt: new Date()}},
+    select: {newEmail: true},
+    orderBy: {createdAt: 'desc'},
+  })
+}
+
+async function requestEmailChange({
+  user,
+  newEmail,
+  domainUrl,
+}: {
+  user: Pick<User, 'id' | 'email' | 'firstName'>
+  newEmail: string
+  domainUrl: string
+}) {
+  // only the latest request counts
+  await prisma.emailChange.deleteMany({where: {userId: user.id}})
+  const emailChange = await prisma.emailChange.create({
+    data: {
+      userId: user.id,
+      newEmail,
+      expirationDate: new Date(Date.now() + linkExpirationTime),
+    },
+  })
+
+  const payload: EmailChangePayload = {emailChangeId: emailChange.id}
+  const url = new URL(domainUrl)
+  url.pathname = 'change-email'
+  url.searchParams.set(emailChangeSearchParam, encrypt(JSON.stringify(payload)))
+
+  await sendEmailChangeConfirmationEmail({
+    oldEmail: user.email,
+    newEmail,
+    firstName: user.firstName,
+    confirmationLink: url.toString(),
+  })
+}
+
+/**
+ * Changes the user's email to the one the link was sent to
+ * @returns the updated user
+ */
+async function confirmEmailChange(link: string) {
+  let emailChangeId
+  try {
+    const encryptedString =
+      new URL(link).searchParams.get(emailChangeSearchParam) ?? '[]'
+    const payload = JSON.parse(decrypt(encryptedString)) as EmailChangePayload
+    emailChangeId = payload.emailChangeId
+  } catch (error: unknown) {
+    console.error(error)
+    throw new Error('Invalid email change link.')
+  }
+  if (typeof emailChangeId !== 'string') {
+    throw new Error('Invalid email change link.')
+  }
+
+  const emailChange = await prisma.emailChange.findUnique({
+    where: {id: emailChangeId},
+    include: {user: true},
+  })
+  if (!emailChange) {
+    throw new Error(
+      'This email change link has already been used or was replaced by a newer one.',
+    )
+  }
+  await prisma.emailChange.delete({where: {id: emailChange.id}})
+  if (Date.now() > emailChange.expirationDate.getTime()) {
+    throw new Error('Email change link expired. Please request a new one.')
+  }
+  const {user: oldUser, newEmail} = emailChange
+  if (await getUserByEmail(newEmail)) {
+    throw new Error(`There's already an account for ${newEmail}.`)
+  }
+
+  const user = await prisma.user.update({
+    where: {id: oldUser.id},
+    data: {email: newEmail},
+  })
+  // links sent to the old address shouldn't sign anyone in anymore
+  await prisma.magicLink.deleteMany({where: {emailAddress: oldUser.email}})
+
+  // the email has changed either way, so these shouldn't fail the change
+  try {
+    if (user.convertKitId) {
+      await updateConvertKitSubscriberEmail({
+        subscriberId: user.convertKitId,
+        email: newEmail,
+      })
+    }
+  } catch (error: unknown) {
+    console.error(
+      `Failed to update the ConvertKit subscriber for ${user.id}:`,
+      getErrorMessage(error),
+    )
+  }
+  try {
+    await sendEmailChangedEmail({
+      oldEmail: oldUser.email,
+      newEmail,
+      firstName: user.firstName,
+    })
+  } catch (error: unknown) {
+    console.error(
+      `Failed to let ${user.id} know their email changed:`,
+      getErrorMessage(error),
+    )
+  }
+
+  return user
+}
+
+export {getPendingEmailChange, requestEmailChange, confirmEmailChange}
@@ -36,4 +36,8 @@ function decrypt(text: string) {
   return decrypted.toString()
 }
 
-export {encrypt, decrypt}
+function hash(text: string) {
+  return crypto.createHmac('sha256', ENCRYPTION_KEY).update(text).digest('hex')
+}
+
+export {encrypt, decrypt, hash}
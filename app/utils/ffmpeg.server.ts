@@ -1,5 +1,14 @@
 import path from 'path'
 import {createFFmpeg, fetchFile} from '@ffmpeg/ffmpeg'
+import type {AudioPipeline, AudioRecording} from './audio-pipeline'
+import {
+  defaultAudioPreset,
+  getFfmpegArgs,
+  getInputFilename,
+  getOutputFilename,
+  getRecordingEditPipeline,
+} from './audio-pipeline'
+import type {AudioEdit} from './call-kent'
 
 type FFMpeg = ReturnType<typeof createFFmpeg>
 
@@ -15,66 +24,56 @@ declare global {
 
 const ffmpeg = global.ffmpeg ?? (global.ffmpeg = createFFmpeg({log: true}))
 
-async function createEpisodeAudio(callBase64: string, responseBase64: string) {
-  if (!ffmpeg.isLoaded()) {
-    await ffmpeg.load()
-  }
+// ffmpeg.wasm can only run one command at a time and both the admin's preview
+// and the publish worker use it, so they take turns.
+let queue: Promise<unknown> = Promise.resolve()
+function runExclusively<Value>(fn: () => Promise<Value>): Promise<Value> {
+  const result = queue.then(fn)
+  queue = result.catch(() => {})
+  return result
+}
 
-  ffmpeg.FS(
-    'writeFile',
-    'intro.mp3',
-    await fetchFile(asset('call-kent/intro.mp3')),
-  )
-  ffmpeg.FS(
-    'writeFile',
-    'interstitial.mp3',
-    await fetchFile(asset('call-kent/interstitial.mp3')),
-  )
-  ffmpeg.FS(
-    'writeFile',
-    'outro.mp3',
-    await fetchFile(asset('call-kent/outro.mp3')),
-  )
+type Recordings = Partial<Record<AudioRecording, Buffer>>
 
-  ffmpeg.FS(
-    'writeFile',
-    'call.mp3',
-    await fetchFile(Buffer.from(callBase64.split(',')[1]!, 'base64')),
-  )
-  ffmpeg.FS(
-    'writeFile',
-    'response.mp3',
-    await fetchFile(Buffer.from(responseBase64.split(',')[1]!, 'base64')),
-  )
+function createEpisodeAudio(
+  recordings: Required<Recordings>,
+  pipeline: AudioPipeline = defaultAudioPreset.pipeline,
+) {
+  return runExclusively(() => runPipeline(recordings, pipeline))
+}
 
-  // prettier-ignore
-  await ffmpeg.run(
-    '-i', 'intro.mp3',
-    '-i', 'call.mp3',
-    '-i', 'interstitial.mp3',
-    '-i', 'response.mp3',
-    '-i', 'outro.mp3',
-    '-filter_complex', `
-      [1]silenceremove=1:0:-50dB[trimmedCall];
-      [3]silenceremove=1:0:-50dB[trimmedResponse];
+/**
+ * Applies the edit a caller made in the recorder to their recording
+ * @returns the edited recording as an mp3
+ */
+function editRecordingAudio(audio: Buffer, edit: AudioEdit) {
+  return runExclusively(() =>
+    runPipeline({call: audio}, getRecordingEditPipeline(edit)),
+  )
+}
 
-      [trimmedCall]silenceremove=stop_periods=-1:stop_duration=1:stop_threshold=-50dB[noSilenceCall];
-      [trimmedResponse]silenceremove=stop_periods=-1:stop_duration=1:stop_threshold=-50dB[noSilenceResponse];
+async function runPipeline(recordings: Recordings, pipeline: AudioPipeline) {
+  if (!ffmpeg.isLoaded()) {
+    await ffmpeg.load()
+  }
 
-      [noSilenceCall]loudnorm=I=-16:LRA=11:TP=0.0[call];
-      [noSilenceResponse]loudnorm=I=-16:LRA=11:TP=0.0[response];
+  for (const segment of pipeline.segments) {
+    const {source} = segment
+    const file =
+      source.type === 'asset'
+        ? asset(source.path)
+        : recordings[source.recording]
+    if (!file) throw new Error(`The ${segment.name} recording is missing`)
+    // eslint-disable-next-line no-await-in-loop
+    const data = await fetchFile(file)
+    ffmpeg.FS('writeFile', getInputFilename(segment), data)
+  }
 
-      [0][call]acrossfade=d=1:c2=nofade[a01];
-      [a01][2]acrossfade=d=1:c1=nofade[a02];
-      [a02][response]acrossfade=d=1:c2=nofade[a03];
-      [a03][4]acrossfade=d=1:c1=nofade
-    `,
-    'output.mp3',
-  )
+  await ffmpeg.run(...getFfmpegArgs(pipeline))
 
-  const outputData = ffmpeg.FS('readFile', 'output.mp3')
+  const outputData = ffmpeg.FS('readFile', getOutputFilename(pipeline))
   const buffer = Buffer.from(outputData)
   return buffer
 }
 
-export {createEpisodeAudio}
+export {createEpisodeAudio, editRecordingAudio}
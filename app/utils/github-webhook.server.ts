@@ -0,0 +1,226 @@
+// GitHub calls this whenever someone pushes to the repo. We use it to find out
+// which content changed and clear (and warm back up) exactly the cache entries
+// for that content so we don't have to wait for the cache to expire.
+import crypto from 'crypto'
+import nodePath from 'path'
+import type {Request} from '~/types'
+import {Response} from 'remix'
+import {
+  blogMdxListItemsKey,
+  getBlogMdxListItems,
+  getCompiledKey,
+  getDirListKey,
+  getDownloadKey,
+  getMdxDirList,
+  getMdxPage,
+} from './mdx'
+import {redisCache} from './redis.server'
+import {workshopsCacheKey} from './workshops.server'
+import {talksCacheKey} from './talks.server'
+import {testimonialsCacheKey} from './testimonials.server'
+import {getSearchIndex, searchIndexKey} from './search.server'
+import {getErrorMessage, getRequiredServerEnvVar} from './misc'
+
+const GITHUB_WEBHOOK_SECRET = getRequiredServerEnvVar('GITHUB_WEBHOOK_SECRET')
+
+type PushCommit = {
+  added?: Array<string>
+  modified?: Array<string>
+  removed?: Array<string>
+}
+
+type PushPayload = {
+  ref?: string
+  commits?: Array<PushCommit>
+}
+
+type ContentChanges = {
+  // every cache key that needs to go
+  keys: Set<string>
+  // MDX pages that still exist and are worth compiling right away
+  pagesToRecompile: Array<{contentDir: string; slug: string}>
+  // content directories that had files added or removed
+  dirListsToRefresh: Set<string>
+}
+
+function isValidSignature(payload: string, signature: string | null) {
+  if (!signature) return false
+  const expected = `sha256=${crypto
+    .createHmac('sha256', GITHUB_WEBHOOK_SECRET)
+    .update(payload)
+    .digest('hex')}`
+  const expectedBuffer = Buffer.from(expected)
+  const signatureBuffer = Buffer.from(signature)
+  if (expectedBuffer.length !== signatureBuffer.length) return false
+  return crypto.timingSafeEqual(expectedBuffer, signatureBuffer)
+}
+
+function getChangedFiles(payload: PushPayload) {
+  const changed = new Set<string>()
+  const addedOrRemoved = new Set<string>()
+  const removed = new Set<string>()
+  // commits come oldest first, so whatever happened to a file last wins
+  for (const commit of payload.commits ?? []) {
+    for (const file of commit.modified ?? []) changed.add(file)
+    for (const file of commit.added ?? []) {
+      changed.add(file)
+      addedOrRemoved.add(file)
+      removed.delete(file)
+    }
+    for (const file of commit.removed ?? []) {
+      changed.add(file)
+      addedOrRemoved.add(file)
+      removed.add(file)
+    }
+  }
+  return {changed, addedOrRemoved, removed}
+}
+
+// the YAML files in content/ each have a single cache entry of their own
+function getDataCacheKey(file: string) {
+  if (file === 'content/data/talks.yml') return talksCacheKey
+  if (file === 'content/data/testimonials.yml') return testimonialsCacheKey
+  if (file.startsWith('content/workshops/')) return workshopsCacheKey
+  return null
+}
+
+// A page is either content/blog/some-post.mdx or a directory like
+// content/blog/some-post/ with an index.mdx (and any files it needs) in it.
+// Either way, the page only comes or goes with the file that's its entry.
+function isPageEntry(pathInContentDir: Array<string>) {
+  const [name, fileInPageDir, ...nested] = pathInContentDir
+  if (!name || nested.length) return false
+  if (!fileInPageDir) return /\.mdx?$/.test(name)
+  return /^index\.mdx?$/.test(fileInPageDir)
+}
+
+function getContentChanges(payload: PushPayload) {
+  const changes: ContentChanges = {
+    keys: new Set(),
+    pagesToRecompile: [],
+    dirListsToRefresh: new Set(),
+  }
+  const files = getChangedFiles(payload)
+
+  const handledPageKeys = new Set<string>()
+  for (const file of files.changed) {
+    const [root, contentDir, ...rest] = file.split('/')
+    if (root !== 'content' || !contentDir || !rest[0]) continue
+
+    if (contentDir === 'data' || file.endsWith('.yml')) {
+      const dataCacheKey = getDataCacheKey(file)
+      if (dataCacheKey) changes.keys.add(dataCacheKey)
+      continue
+    }
+
+    // content/blog/some-post.mdx and content/blog/some-post/index.mdx (and
+    // any files next to it) are both the "some-post" slug
+    const slug = nodePath.parse(rest[0]).name
+    if (slug === 'README') continue
+    const pageKey = getCompiledKey(contentDir, slug)
+    changes.keys.add(pageKey)
+    changes.keys.add(getDownloadKey(contentDir, slug))
+    if (contentDir === 'blog') changes.keys.add(blogMdxListItemsKey)
+
+    const isEntry = isPageEntry(rest)
+    if (isEntry && files.addedOrRemoved.has(file)) {
+      changes.keys.add(getDirListKey(contentDir))
+      changes.dirListsToRefresh.add(contentDir)
+    }
+
+    const pageWasRemoved = isEntry && files.removed.has(file)
+    if (pageWasRemoved) {
+      handledPageKeys.add(pageKey)
+      changes.pagesToRecompile = changes.pagesToRecompile.filter(
+        page => page.contentDir !== contentDir || page.slug !== slug,
+      )
+    } else if (!handledPageKeys.has(pageKey)) {
+      handledPageKeys.add(pageKey)
+      changes.pagesToRecompile.push({contentDir, slug})
+    }
+  }
+  // the search index is built from all of this content, so any change means
+  // it needs to be rebuilt as well.
+  if (changes.keys.size) changes.keys.add(searchIndexKey)
+  return changes
+}
+
+async function warmContentCache(changes: ContentChanges) {
+  for (const contentDir of changes.dirListsToRefresh) {
+    // eslint-disable-next-line no-await-in-loop
+    await getMdxDirList(contentDir, {forceFresh: true})
+  }
+  // esbuild uses all the resources it can get, so we compile these one at a
+  // time to avoid running out of memory.
+  for (const page of changes.pagesToRecompile) {
+    // eslint-disable-next-line no-await-in-loop
+    await getMdxPage(page, {forceFresh: true})
+  }
+  if (changes.keys.has(blogMdxListItemsKey)) {
+    // the pages themselves are fresh now, so this only compiles what's missing
+    await getBlogMdxListItems({})
+  }
+  if (changes.keys.has(searchIndexKey)) {
+    // this goes last so it's built from everything we just refreshed
+    await getSearchIndex({})
+  }
+}
+
+async function handleGitHubWebhook(request: Request) {
+  if (request.method !== 'POST') {
+    return new Response('Method Not Allowed', {status: 405})
+  }
+
+  const payloadString = await request.text()
+  const signature = request.headers.get('X-Hub-Signature-256')
+  if (!isValidSignature(payloadString, signature)) {
+    console.warn('Received a GitHub webhook with an invalid signature')
+    return new Response('Invalid signature', {status: 401})
+  }
+
+  const event = request.headers.get('X-GitHub-Event')
+  if (event === 'ping') return jsonResponse({message: 'pong'})
+  if (event !== 'push') {
+    return jsonResponse({message: `Ignoring ${event} event`})
+  }
+
+  const payload = JSON.parse(payloadString) as PushPayload
+  if (payload.ref !== 'refs/heads/main') {
+    return jsonResponse({message: `Ignoring push to ${payload.ref}`})
+  }
+
+  const changes = getContentChanges(payload)
+  const deletedKeys = Array.from(changes.keys)
+  // deleting the keys happens in the primary redis instance, so every region
+  // gets the update as soon as it's replicated.
+  await Promise.all(deletedKeys.map(key => redisCache.del(key)))
+
+  // GitHub only waits 10 seconds for us to respond which isn't enough time to
+  // compile MDX, so we'll warm the cache back up after we've responded.
+  void warmContentCache(changes).catch((error: unknown) => {
+    console.error(
+      `Failed to warm the cache after a content change:`,
+      getErrorMessage(error),
+    )
+  })
+
+  return jsonResponse({
+    deletedKeys,
+    recompiling: changes.pagesToRecompile.map(
+      ({contentDir, slug}) => `${contentDir}/${slug}`,
+    ),
+  })
+}
+
+function jsonResponse(data: unknown) {
+  const json = JSON.stringify(data)
+  return new Response(json, {
+    status: 200,
+    headers: {
+      'Content-Type': 'application/json',
+      'Content-Length': String(Buffer.byteLength(json)),
+    },
+  })
+}
+
+export {handleGitHubWebhook}
@@ -0,0 +1,124 @@
+import nodePath from 'path'
+import {promises as fs} from 'fs'
+import type {GitHubFile} from '~/types'
+import type {ContentListItem} from './content.server'
+
+// all paths we're given are relative to the root of the repo (just like the
+// paths we get from the GitHub API), so we resolve them from there.
+const rootDir = process.cwd()
+const fromRoot = (...p: Array<string>) => nodePath.join(rootDir, ...p)
+
+async function readFile(path: string) {
+  return fs.readFile(fromRoot(path), {encoding: 'utf-8'})
+}
+
+/**
+ * Reads a page's MDX from the `content/` directory on disk. Pages can be a
+ * single file (content/blog/my-post.mdx) or a directory with an index.mdx and
+ * whatever else it needs (content/blog/my-post/index.mdx).
+ * @param relativeMdxFileOrDirectory the path to the page within `content/`
+ * (for example "blog/my-post")
+ * @returns the page's files, or an empty array if there's no such page
+ */
+async function downloadMdxFileOrDirectory(
+  relativeMdxFileOrDirectory: string,
+): Promise<Array<GitHubFile>> {
+  const mdxFileOrDirectory = `content/${relativeMdxFileOrDirectory}`
+
+  const parentDir = nodePath.dirname(mdxFileOrDirectory)
+  const dirList = await downloadDirList(parentDir)
+
+  const basename = nodePath.basename(mdxFileOrDirectory)
+  const mdxFileWithoutExt = nodePath.parse(mdxFileOrDirectory).name
+  const potentials = dirList.filter(({name}) => name.startsWith(basename))
+  const exactMatch = potentials.find(
+    ({name}) => nodePath.parse(name).name === mdxFileWithoutExt,
+  )
+
+  const filesOnly = (exactMatch ? [exactMatch] : potentials).filter(
+    ({type}) => type === 'file',
+  )
+  for (const extension of ['.mdx', '.md']) {
+    const file = filesOnly.find(({name}) => name.endsWith(extension))
+    if (file) {
+      // just like the GitHub source, compileMdx needs the entry to be called
+      // "index.mdx" so we'll set it to that.
+      return [
+        {
+          path: nodePath.join(mdxFileOrDirectory, 'index.mdx'),
+          // eslint-disable-next-line no-await-in-loop
+          content: await readFile(file.path),
+        },
+      ]
+    }
+  }
+
+  if (potentials.find(({type}) => type === 'dir')) {
+    return downloadDirectory(mdxFileOrDirectory)
+  }
+  return []
+}
+
+/**
+ *
+ * @param dir the directory to read.
+ * This will recursively read all content at the given path.
+ * @returns An array of file paths with their content
+ */
+async function downloadDirectory(dir: string): Promise<Array<GitHubFile>> {
+  const dirList = await downloadDirList(dir)
+
+  const result = await Promise.all(
+    dirList.map(async ({path: fileDir, type}) => {
+      switch (type) {
+        case 'file': {
+          const content = await readFile(fileDir)
+          return {path: fileDir, content}
+        }
+        case 'dir': {
+          return downloadDirectory(fileDir)
+        }
+        default: {
+          throw new Error(`Unexpected content file type: ${type}`)
+        }
+      }
+    }),
+  )
+
+  return result.flat()
+}
+
+async function downloadFile(path: string) {
+  try {
+    return await readFile(path)
+  } catch (error: unknown) {
+    console.error(error)
+    throw new Error(
+      `Tried to read ${path} from the local filesystem and failed`,
+    )
+  }
+}
+
+/**
+ *
+ * @param path the full path to list (relative to the root of the repo)
+ * @returns a promise that resolves to a file ListItem of the files/directories in the given directory (not recursive)
+ */
+async function downloadDirList(path: string): Promise<Array<ContentListItem>> {
+  const entries = await fs.readdir(fromRoot(path), {withFileTypes: true})
+  return entries
+    .filter(entry => entry.isFile() || entry.isDirectory())
+    .map(entry => {
+      const entryPath = nodePath.join(path, entry.name)
+      return {
+        name: entry.name,
+        path: entryPath,
+        // there's no such thing as a sha for a local file and nobody outside
+        // of the content source needs it, so the path is good enough.
+        sha: entryPath,
+        type: entry.isDirectory() ? 'dir' : 'file',
+      }
+    })
+}
+
+export {downloadMdxFileOrDirectory, downloadDirList, downloadFile}
@@ -26,16 +26,20 @@ async function getLoginInfoSession(request: Request) {
   return {
     getEmail: () => session.get('email') as string | undefined,
     setEmail: (email: string) => session.set('email', email),
-    getMagicLink: () => session.get('magicLink') as string | undefined,
-    setMagicLink: (magicLink: string) => session.set('magicLink', magicLink),
-    unsetMagicLink: () => session.unset('magicLink'),
+    // set once someone has used a magic link or code for an email address
+    // that doesn't have an account yet, so they can finish signing up
+    getVerifiedEmail: () => session.get('verifiedEmail') as string | undefined,
+    setVerifiedEmail: (email: string) => session.set('verifiedEmail', email),
+    getCodeSent: () => Boolean(session.get('codeSent')),
+    setCodeSent: () => session.set('codeSent', true),
     getError: () => session.get('error') as string | undefined,
     flashError: (error: string) => session.flash('error', error),
     getMessage: () => session.get('message') as string | undefined,
     flashMessage: (message: string) => session.flash('message', message),
     clean: () => {
       session.unset('email')
-      session.unset('magicLink')
+      session.unset('verifiedEmail')
+      session.unset('codeSent')
       session.unset('error')
       session.unset('message')
     },
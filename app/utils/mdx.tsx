@@ -5,7 +5,7 @@ import {compileMdx} from '~/utils/compile-mdx.server'
 import {
   downloadDirList,
   downloadMdxFileOrDirectory,
-} from '~/utils/github.server'
+} from '~/utils/content.server'
 import {AnchorOrLink} from '~/utils/misc'
 import {redisCache} from './redis.server'
 import type {Timings} from './metrics.server'
@@ -152,12 +152,14 @@ async function compileMdxCached(
   })
 }
 
+const blogMdxListItemsKey = 'blog:mdx-list-items'
+
 async function getBlogMdxListItems(options: CachifiedOptions) {
   return cachified({
     cache: redisCache,
     maxAge: defaultMaxAge,
     ...options,
-    key: 'blog:mdx-list-items',
+    key: blogMdxListItemsKey,
     getFreshValue: async () => {
       let pages = await getMdxPagesInDirectory('blog', options)
 
@@ -219,9 +221,14 @@ function useMdxComponent(code: string) {
 export {
   getMdxPage,
   getMdxDirList,
+  getCompiledKey,
+  getDownloadKey,
+  getDirListKey,
+  downloadMdxFilesCached,
   getMdxPagesInDirectory,
   mapFromMdxPageToMdxListItem,
   getBlogMdxListItems,
+  blogMdxListItemsKey,
   mdxPageMeta,
   useMdxComponent,
 }
@@ -0,0 +1,332 @@
+// Passkeys (WebAuthn) let users sign in without waiting for a magic link. The
+// browser hands us the passkey's public key when it's registered (see
+// passkeys.ts), so all we have to do is check the challenge, the origin, and
+// the authenticator data, and verify signatures with node's crypto. That saves
+// us from pulling in a CBOR parser and a WebAuthn library.
+import crypto from 'crypto'
+import {Response} from 'remix'
+import type {Request, User} from '~/types'
+import type {
+  PasskeyAuthenticationCredential,
+  PasskeyAuthenticationOptions,
+  PasskeyRegistrationCredential,
+  PasskeyRegistrationOptions,
+} from './passkeys'
+import {prisma, getReplayResponse} from './prisma.server'
+import {getUser} from './session.server'
+import {getDomainUrl, getErrorMessage} from './misc'
+
+const challengeExpirationTime = 1000 * 60 * 5
+
+// COSE algorithm identifiers and how to verify their signatures
+const supportedAlgorithms: Record<number, string | null> = {
+  // ES256
+  [-7]: 'sha256',
+  // EdDSA (the hash is part of the algorithm)
+  [-8]: null,
+  // RS256
+  [-257]: 'sha256',
+}
+
+// https://www.w3.org/TR/webauthn-2/#sctn-authenticator-data
+const userPresentFlag = 0x01
+// a passkey is all it takes to sign in, so the authenticator has to have
+// checked it's really them (with a PIN or biometrics), not just that someone's
+// there
+const userVerifiedFlag = 0x04
+
+const toBase64url = (buffer: Buffer) => buffer.toString('base64url')
+const fromBase64url = (base64url: string) => Buffer.from(base64url, 'base64url')
+
+function getRelyingParty(request: Request) {
+  const origin = getDomainUrl(request)
+  return {id: new URL(origin).hostname, name: 'kentcdodds.com', origin}
+}
+
+async function createChallenge(userId: string | null) {
+  // this is as good a time as any to clean up challenges nobody used
+  await prisma.passkeyChallenge.deleteMany({
+    where: {expirationDate: {lt: new Date()}},
+  })
+  const {challenge} = await prisma.passkeyChallenge.create({
+    data: {
+      challenge: toBase64url(crypto.randomBytes(32)),
+      userId,
+      expirationDate: new Date(Date.now() + challengeExpirationTime),
+    },
+  })
+  return challenge
+}
+
+/**
+ * Checks the client data the browser signed and uses up its challenge
+ */
+async function verifyClientData(
+  clientDataJSON: string,
+  {
+    type,
+    origin,
+    userId,
+  }: {
+    type: 'webauthn.create' | 'webauthn.get'
+    origin: string
+    userId: string | null
+  },
+) {
+  const clientData = JSON.parse(
+    fromBase64url(clientDataJSON).toString('utf8'),
+  ) as {type?: unknown; challenge?: unknown; origin?: unknown}
+  if (clientData.type !== type) throw new Error('Invalid passkey response')
+  if (clientData.origin !== origin) {
+    throw new Error(`This passkey is for a different site`)
+  }
+  if (typeof clientData.challenge !== 'string') {
+    throw new Error('Invalid passkey response')
+  }
+
+  const challenge = await prisma.passkeyChallenge.findUnique({
+    where: {challenge: clientData.challenge},
+  })
+  if (!challenge || challenge.userId !== userId) {
+    throw new Error('Invalid passkey response')
+  }
+  await prisma.passkeyChallenge.delete({where: {id: challenge.id}})
+  if (Date.now() > challenge.expirationDate.getTime()) {
+    throw new Error('That took too long. Please try again.')
+  }
+}
+
+function parseAuthenticatorData(authenticatorData: Buffer, rpId: string) {
+  if (authenticatorData.length < 37) throw new Error('Invalid passkey response')
+  const rpIdHash = crypto.createHash('sha256').update(rpId).digest()
+  if (!authenticatorData.subarray(0, 32).equals(rpIdHash)) {
+    throw new Error(`This passkey is for a different site`)
+  }
+  const flags = authenticatorData.readUInt8(32)
+  // the flags are a bit field, so there's no way around bit operations here
+  // eslint-disable-next-line no-bitwise
+  if (!(flags & userPresentFlag)) {
+    throw new Error('Invalid passkey response')
+  }
+  // eslint-disable-next-line no-bitwise
+  if (!(flags & userVerifiedFlag)) {
+    throw new Error(
+      `Your passkey didn't verify it's you. Please try again with a PIN or biometrics.`,
+    )
+  }
+  return {signCount: authenticatorData.readUInt32BE(33)}
+}
+
+async function getRegistrationOptions(
+  request: Request,
+  user: Pick<User, 'id' | 'email' | 'firstName'>,
+): Promise<PasskeyRegistrationOptions> {
+  const rp = getRelyingParty(request)
+  const passkeys = await prisma.passkey.findMany({
+    where: {userId: user.id},
+    select: {credentialId: true},
+  })
+  return {
+    challenge: await createChallenge(user.id),
+    rp: {id: rp.id, name: rp.name},
+    user: {
+      id: toBase64url(Buffer.from(user.id)),
+      name: user.email,
+      displayName: user.firstName,
+    },
+    pubKeyCredParams: Object.keys(supportedAlgorithms).map(alg => ({
+      type: 'public-key',
+      alg: Number(alg),
+    })),
+    excludeCredentials: passkeys.map(passkey => ({
+      type: 'public-key',
+      id: passkey.credentialId,
+    })),
+    timeout: challengeExpirationTime,
+  }
+}
+
+async function getAuthenticationOptions(
+  request: Request,
+): Promise<PasskeyAuthenticationOptions> {
+  return {
+    challenge: await createChallenge(null),
+    rpId: getRelyingParty(request).id,
+    // no allowCredentials so the browser offers any of the user's passkeys
+    // for this site without us having to know who they are
+    timeout: challengeExpirationTime,
+  }
+}
+
+async function registerPasskey({
+  request,
+  user,
+  name,
+  credential,
+}: {
+  request: Request
+  user: Pick<User, 'id'>
+  name: string
+  credential: PasskeyRegistrationCredential
+}) {
+  const rp = getRelyingParty(request)
+  await verifyClientData(credential.response.clientDataJSON, {
+    type: 'webauthn.create',
+    origin: rp.origin,
+    userId: user.id,
+  })
+  const {signCount} = parseAuthenticatorData(
+    fromBase64url(credential.response.authenticatorData),
+    rp.id,
+  )
+
+  const algorithm = credential.response.publicKeyAlgorithm
+  if (!(algorithm in supportedAlgorithms)) {
+    throw new Error(`This passkey uses a type of key we don't support`)
+  }
+  // make sure it's a key we'll be able to verify signatures with later
+  crypto.createPublicKey({
+    key: fromBase64url(credential.response.publicKey),
+    format: 'der',
+    type: 'spki',
+  })
+
+  return prisma.passkey.create({
+    data: {
+      userId: user.id,
+      name,
+      credentialId: credential.id,
+      publicKey: credential.response.publicKey,
+      algorithm,
+      signCount,
+    },
+  })
+}
+
+/**
+ * @returns the user the passkey belongs to
+ */
+async function authenticateWithPasskey({
+  request,
+  credential,
+}: {
+  request: Request
+  credential: PasskeyAuthenticationCredential
+}) {
+  const rp = getRelyingParty(request)
+  const passkey = await prisma.passkey.findUnique({
+    where: {credentialId: credential.id},
+    include: {user: true},
+  })
+  if (!passkey) {
+    throw new Error(
+      `That passkey isn't registered with any account. Please sign in with a magic link instead.`,
+    )
+  }
+
+  const {clientDataJSON} = credential.response
+  await verifyClientData(clientDataJSON, {
+    type: 'webauthn.get',
+    origin: rp.origin,
+    userId: null,
+  })
+  const authenticatorData = fromBase64url(credential.response.authenticatorData)
+  const {signCount} = parseAuthenticatorData(authenticatorData, rp.id)
+
+  const isValid = crypto.verify(
+    supportedAlgorithms[passkey.algorithm] ?? null,
+    Buffer.concat([
+      authenticatorData,
+      crypto
+        .createHash('sha256')
+        .update(fromBase64url(clientDataJSON))
+        .digest(),
+    ]),
+    {key: fromBase64url(passkey.publicKey), format: 'der', type: 'spki'},
+    fromBase64url(credential.response.signature),
+  )
+  if (!isValid) throw new Error('Invalid passkey response')
+
+  // authenticators that count signatures always count up, so if the count
+  // goes backwards there's a copy of this passkey out there.
+  if (signCount !== 0 && signCount <= passkey.signCount) {
+    throw new Error(
+      'This passkey may have been copied. Please sign in with a magic link instead.',
+    )
+  }
+  await prisma.passkey.update({
+    where: {id: passkey.id},
+    data: {signCount, lastUsedAt: new Date()},
+  })
+  return passkey.user
+}
+
+function getPasskeys(userId: string) {
+  return prisma.passkey.findMany({
+    where: {userId},
+    select: {id: true, name: true, createdAt: true, lastUsedAt: true},
+    orderBy: {createdAt: 'asc'},
+  })
+}
+
+async function deletePasskey({
+  userId,
+  passkeyId,
+}: {
+  userId: string
+  passkeyId: string
+}) {
+  // NOTE: the userId makes sure people can only delete their own passkeys
+  await prisma.passkey.deleteMany({where: {id: passkeyId, userId}})
+}
+
+function parseCredential<Credential>(value: string | null) {
+  if (!value) return null
+  try {
+    return JSON.parse(value) as Credential
+  } catch {
+    return null
+  }
+}
+
+async function getPasskeyOptionsResponse(request: Request) {
+  if (request.method !== 'POST') {
+    return new Response('Method not allowed', {status: 405})
+  }
+  const type = new URLSearchParams(await request.text()).get('type')
+  let options: PasskeyRegistrationOptions | PasskeyAuthenticationOptions
+  try {
+    if (type === 'registration') {
+      const user = await getUser(request)
+      if (!user) return new Response('Unauthorized', {status: 401})
+      options = await getRegistrationOptions(request, user)
+    } else if (type === 'authentication') {
+      options = await getAuthenticationOptions(request)
+    } else {
+      return new Response('Unknown type', {status: 400})
+    }
+  } catch (error: unknown) {
+    // challenges can only be saved in the primary region
+    const replayResponse = getReplayResponse(request, getErrorMessage(error))
+    if (replayResponse) return replayResponse
+    throw error
+  }
+
+  const json = JSON.stringify(options)
+  return new Response(json, {
+    headers: {
+      'Content-Type': 'application/json',
+      'Content-Length': String(Buffer.byteLength(json)),
+      'Cache-Control': 'no-store',
+    },
+  })
+}
+
+export {
+  registerPasskey,
+  authenticateWithPasskey,
+  getPasskeys,
+  deletePasskey,
+  parseCredential,
+  getPasskeyOptionsResponse,
+}
@@ -0,0 +1,161 @@
+// The browser side of passkeys (WebAuthn). The WebAuthn API deals in
+// ArrayBuffers, so everything that goes to or comes from the server is
+// base64url encoded. See passkeys.server.ts for the server side.
+
+type PasskeyRegistrationOptions = {
+  challenge: string
+  rp: {id: string; name: string}
+  user: {id: string; name: string; displayName: string}
+  pubKeyCredParams: Array<{type: 'public-key'; alg: number}>
+  // the passkeys the user already has, so they don't register one twice
+  excludeCredentials: Array<{type: 'public-key'; id: string}>
+  timeout: number
+}
+
+type PasskeyAuthenticationOptions = {
+  challenge: string
+  rpId: string
+  timeout: number
+}
+
+type PasskeyRegistrationCredential = {
+  id: string
+  response: {
+    clientDataJSON: string
+    authenticatorData: string
+    // DER encoded SubjectPublicKeyInfo
+    publicKey: string
+    publicKeyAlgorithm: number
+  }
+}
+
+type PasskeyAuthenticationCredential = {
+  id: string
+  response: {
+    clientDataJSON: string
+    authenticatorData: string
+    signature: string
+  }
+}
+
+// TypeScript's DOM types don't have these yet
+type AttestationResponse = AuthenticatorAttestationResponse & {
+  getAuthenticatorData: () => ArrayBuffer
+  getPublicKey: () => ArrayBuffer | null
+  getPublicKeyAlgorithm: () => number
+}
+
+function bufferToBase64url(buffer: ArrayBuffer) {
+  let binary = ''
+  for (const byte of new Uint8Array(buffer)) binary += String.fromCharCode(byte)
+  return window
+    .btoa(binary)
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/[=]+$/, '')
+}
+
+function base64urlToBuffer(base64url: string) {
+  const base64 = base64url.replace(/-/g, '+').replace(/_/g, '/')
+  const binary = window.atob(
+    base64.padEnd(Math.ceil(base64.length / 4) * 4, '='),
+  )
+  return Uint8Array.from(binary, character => character.charCodeAt(0)).buffer
+}
+
+function isPasskeySupported() {
+  return (
+    typeof window !== 'undefined' &&
+    typeof window.PublicKeyCredential === 'function' &&
+    typeof AuthenticatorAttestationResponse !== 'undefined' &&
+    // we rely on the browser to extract the public key for us
+    'getPublicKey' in AuthenticatorAttestationResponse.prototype
+  )
+}
+
+async function getPasskeyOptions<Options>(
+  type: 'registration' | 'authentication',
+) {
+  const response = await fetch('/_passkeys/options', {
+    method: 'POST',
+    body: new URLSearchParams({type}),
+  })
+  if (!response.ok) throw new Error('Unable to start using a passkey')
+  return (await response.json()) as Options
+}
+
+/**
+ * Asks the browser to make a new passkey for the current user
+ */
+async function createPasskey(): Promise<PasskeyRegistrationCredential> {
+  const options = await getPasskeyOptions<PasskeyRegistrationOptions>(
+    'registration',
+  )
+  const credential = (await navigator.credentials.create({
+    publicKey: {
+      ...options,
+      challenge: base64urlToBuffer(options.challenge),
+      user: {...options.user, id: base64urlToBuffer(options.user.id)},
+      excludeCredentials: options.excludeCredentials.map(({type, id}) => ({
+        type,
+        id: base64urlToBuffer(id),
+      })),
+      authenticatorSelection: {
+        residentKey: 'required',
+        userVerification: 'required',
+      },
+      attestation: 'none',
+    },
+  })) as PublicKeyCredential | null
+  if (!credential) throw new Error('No passkey was created')
+
+  const response = credential.response as AttestationResponse
+  const publicKey = response.getPublicKey()
+  if (!publicKey) {
+    throw new Error(`This passkey uses a type of key we don't support`)
+  }
+  return {
+    id: credential.id,
+    response: {
+      clientDataJSON: bufferToBase64url(response.clientDataJSON),
+      authenticatorData: bufferToBase64url(response.getAuthenticatorData()),
+      publicKey: bufferToBase64url(publicKey),
+      publicKeyAlgorithm: response.getPublicKeyAlgorithm(),
+    },
+  }
+}
+
+/**
+ * Asks the browser for one of the user's passkeys for this site
+ */
+async function getPasskey(): Promise<PasskeyAuthenticationCredential> {
+  const options = await getPasskeyOptions<PasskeyAuthenticationOptions>(
+    'authentication',
+  )
+  const credential = (await navigator.credentials.get({
+    publicKey: {
+      ...options,
+      challenge: base64urlToBuffer(options.challenge),
+      userVerification: 'required',
+    },
+  })) as PublicKeyCredential | null
+  if (!credential) throw new Error('No passkey was used')
+
+  const response = credential.response as AuthenticatorAssertionResponse
+  return {
+    id: credential.id,
+    response: {
+      clientDataJSON: bufferToBase64url(response.clientDataJSON),
+      authenticatorData: bufferToBase64url(response.authenticatorData),
+      signature: bufferToBase64url(response.signature),
+    },
+  }
+}
+
+export type {
+  PasskeyRegistrationOptions,
+  PasskeyAuthenticationOptions,
+  PasskeyRegistrationCredential,
+  PasskeyAuthenticationCredential,
+}
+export {isPasskeySupported, createPasskey, getPasskey}
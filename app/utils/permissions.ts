@@ -0,0 +1,41 @@
+import type {Role, User} from '~/types'
+
+// What people can do is decided by their role. Check for permissions rather
+// than roles so giving a role more (or less) to do only has to happen here.
+type Permission =
+  // see the calls people have made, listen to them, and decline them
+  | 'triageCalls'
+  // record responses to calls and publish them as episodes
+  | 'publishCalls'
+  | 'deleteCalls'
+  | 'manageUsers'
+  // clear cached content so it's fetched fresh (with ?fresh)
+  | 'purgeCache'
+  // see how the blog is being read at /admin/analytics
+  | 'viewAnalytics'
+
+const rolePermissions: Record<Role, Array<Permission>> = {
+  ADMIN: [
+    'triageCalls',
+    'publishCalls',
+    'deleteCalls',
+    'manageUsers',
+    'purgeCache',
+    'viewAnalytics',
+  ],
+  MODERATOR: ['triageCalls'],
+  EDITOR: ['purgeCache'],
+  MEMBER: [],
+}
+
+const roles = Object.keys(rolePermissions) as Array<Role>
+
+function hasPermission(
+  user: Pick<User, 'role'> | null | undefined,
+  permission: Permission,
+) {
+  return user ? rolePermissions[user.role].includes(permission) : false
+}
+
+export {roles, hasPermission}
+export type {Permission}
@@ -0,0 +1,168 @@
+// Reads decide the team rankings, so /_action/mark-read doesn't take the
+// browser's word for it. A read only counts if it's for a real post, it's not
+// from a bot, it's not coming in faster than anyone could read, and the page
+// was loaded long enough ago to have read a good chunk of the post. The page
+// hands out a read token (see getReadToken) so we know when that was and who
+// it was for. Reads that don't pass are saved as RejectedPostReads so admins
+// can keep an eye on them (up to a point, a bot could send us thousands).
+import {subDays} from 'date-fns'
+import type {PostReadRejection} from '@prisma/client'
+import type {Request} from '~/types'
+import {prisma, isPrimaryRegion} from './prisma.server'
+import {encrypt, decrypt} from './encryption.server'
+import {getBlogMdxListItems} from './mdx'
+import {getClientIp, rateLimit} from './rate-limit.server'
+import type {RateLimit} from './rate-limit.server'
+import {isBot} from './user-agent'
+import {getErrorMessage} from './misc'
+
+declare global {
+  // This prevents us from starting multiple workers when the require cache is
+  // cleared in development.
+  // eslint-disable-next-line
+  var rejectedReadCleanupWorker: ReturnType<typeof setInterval> | undefined
+}
+
+// the browser waits until they've been on the page for 60% of the read time
+// before marking it read. This leaves plenty of room for fast readers.
+const minReadTimeRatio = 0.3
+const minTimeOnPage = 1000 * 10
+// nobody leaves a post open this long before reading it, so an older token was
+// saved to be reused
+const maxReadTokenAge = 1000 * 60 * 60 * 4
+
+const markReadRateLimit: RateLimit = {
+  name: 'mark-read',
+  perIp: {max: 60, window: 1000 * 60 * 60},
+  perIdentifier: {max: 30, window: 1000 * 60 * 60},
+}
+
+// past this, the rejections are still rejected, we just don't save them
+const rejectedReadRecordLimit: RateLimit = {
+  name: 'rejected-read',
+  perIp: {max: 30, window: 1000 * 60 * 60},
+  perIdentifier: {max: 15, window: 1000 * 60 * 60},
+}
+const rejectedReadRetentionDays = 30
+const cleanupInterval = 1000 * 60 * 60 * 24
+
+type ReadToken = {
+  slug: string
+  // the user ID (or client ID if they're not logged in) of who loaded the page
+  readerId: string
+  // when the page was loaded
+  issuedAt: number
+}
+
+function getReadToken({slug, readerId}: Omit<ReadToken, 'issuedAt'>) {
+  const token: ReadToken = {slug, readerId, issuedAt: Date.now()}
+  return encrypt(JSON.stringify(token))
+}
+
+function getReadTokenIssuedAt(
+  readToken: unknown,
+  {slug, readerId}: Omit<ReadToken, 'issuedAt'>,
+) {
+  if (typeof readToken !== 'string') return null
+  try {
+    const token = JSON.parse(decrypt(readToken)) as Partial<ReadToken>
+    if (
+      token.slug !== slug ||
+      token.readerId !== readerId ||
+      typeof token.issuedAt !== 'number' ||
+      Date.now() - token.issuedAt > maxReadTokenAge
+    ) {
+      return null
+    }
+    return token.issuedAt
+  } catch {
+    return null
+  }
+}
+
+async function getRejection(
+  request: Request,
+  {
+    slug,
+    readToken,
+    identifier,
+  }: {slug: string; readToken: unknown; identifier: string},
+): Promise<PostReadRejection | null> {
+  if (isBot(request.headers.get('User-Agent'))) return 'BOT'
+
+  const posts = await getBlogMdxListItems({forceFresh: false})
+  const post = posts.find(p => p.slug === slug)
+  if (!post) return 'UNKNOWN_POST'
+
+  const issuedAt = getReadTokenIssuedAt(readToken, {slug, readerId: identifier})
+  const minTime = Math.max(
+    (post.readTime?.time ?? 0) * minReadTimeRatio,
+    minTimeOnPage,
+  )
+  if (!issuedAt || Date.now() - issuedAt < minTime) return 'TOO_FAST'
+
+  const rateLimited = await rateLimit(request, markReadRateLimit, identifier)
+  if (rateLimited) return 'RATE_LIMITED'
+
+  return null
+}
+
+/**
+ * Checks that a read should count and saves it for admins if it shouldn't.
+ * @returns why the read was rejected, or null if it should count
+ */
+async function validatePostRead(
+  request: Request,
+  {
+    slug,
+    readToken,
+    userId,
+    clientId,
+  }: {slug: string; readToken: unknown} & (
+    | {userId: string; clientId?: undefined}
+    | {userId?: undefined; clientId: string}
+  ),
+) {
+  const identifier = userId ?? clientId
+  const reason = await getRejection(request, {slug, readToken, identifier})
+  if (!reason) return null
+
+  const tooManyToRecord = await rateLimit(
+    request,
+    rejectedReadRecordLimit,
+    identifier,
+  )
+  if (!tooManyToRecord) {
+    await prisma.rejectedPostRead.create({
+      data: {
+        postSlug: slug.slice(0, 200),
+        userId,
+        clientId,
+        reason,
+        userAgent: request.headers.get('User-Agent'),
+        ip: getClientIp(request),
+      },
+    })
+  }
+  return reason
+}
+
+async function deleteOldRejectedReads() {
+  await prisma.rejectedPostRead.deleteMany({
+    where: {createdAt: {lt: subDays(new Date(), rejectedReadRetentionDays)}},
+  })
+}
+
+function startRejectedReadCleanupWorker() {
+  // only the primary region can write to the database
+  if (!isPrimaryRegion || global.rejectedReadCleanupWorker) return
+  global.rejectedReadCleanupWorker = setInterval(() => {
+    deleteOldRejectedReads().catch((error: unknown) => {
+      console.error('Error deleting old rejected reads', getErrorMessage(error))
+    })
+  }, cleanupInterval)
+}
+
+startRejectedReadCleanupWorker()
+
+export {getReadToken, validatePostRead}
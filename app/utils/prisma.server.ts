@@ -1,10 +1,12 @@
+import crypto from 'crypto'
 import {PrismaClient} from '@prisma/client'
 import type {Request, Response, EntryContext} from 'remix'
 import {redirect} from 'remix'
 import chalk from 'chalk'
 import type {User, Session} from '~/types'
-import {encrypt, decrypt} from './encryption.server'
+import {encrypt, decrypt, hash} from './encryption.server'
 import {getRequiredServerEnvVar} from './misc'
+import {blobStore} from './blob-store.server'
 
 declare global {
   // This prevents us from making multiple connections to the db when the
@@ -99,66 +101,169 @@ Connected to non-localhost DB in dev mode:
 
 const linkExpirationTime = 1000 * 60 * 30
 const sessionExpirationTime = 1000 * 60 * 60 * 24 * 30
+const lastSeenUpdateInterval = 1000 * 60 * 5
+// reading a post more than once in this time only counts once
+const postReadDedupeTime = 1000 * 60 * 60 * 24 * 7
 const magicLinkSearchParam = 'kodyKey'
 
+const maxMagicLinkCodeAttempts = 5
+
 type MagicLinkPayload = {
-  emailAddress: string
-  creationDate: string
+  magicLinkId: string
+}
+
+function getMagicLinkCode() {
+  return String(crypto.randomInt(0, 1_000_000)).padStart(6, '0')
 }
 
-function getMagicLink({
+/**
+ * @returns the link to put in the email and a code people can type in on the
+ * device they asked for the link on instead
+ */
+async function createMagicLink({
   emailAddress,
   domainUrl,
 }: {
   emailAddress: string
   domainUrl: string
 }) {
-  const payload: MagicLinkPayload = {
-    emailAddress,
-    creationDate: new Date().toISOString(),
-  }
+  // this is as good a time as any to clean up links nobody used
+  await prisma.magicLink.deleteMany({
+    where: {expirationDate: {lt: new Date()}},
+  })
+  const code = getMagicLinkCode()
+  const magicLink = await prisma.magicLink.create({
+    data: {
+      emailAddress,
+      codeHash: hash(code),
+      expirationDate: new Date(Date.now() + linkExpirationTime),
+    },
+  })
+  const payload: MagicLinkPayload = {magicLinkId: magicLink.id}
   const stringToEncrypt = JSON.stringify(payload)
   const encryptedString = encrypt(stringToEncrypt)
   const url = new URL(domainUrl)
   url.pathname = 'magic'
   url.searchParams.set(magicLinkSearchParam, encryptedString)
-  return url.toString()
+  return {link: url.toString(), code}
+}
+
+function getActiveMagicLinkFilter(emailAddress: string) {
+  return {
+    emailAddress,
+    usedAt: null,
+    expirationDate: {gt: new Date()},
+    attempts: {lt: maxMagicLinkCodeAttempts},
+  }
+}
+
+/**
+ * Marks the magic link as used along with every other link we've sent to the
+ * same email address, so whichever one is used first is the only one that
+ * works.
+ */
+async function markMagicLinkUsed({
+  id,
+  emailAddress,
+}: {
+  id: string
+  emailAddress: string
+}) {
+  const usedAt = new Date()
+  // NOTE: the usedAt check makes sure two requests can't both use the link
+  const {count} = await prisma.magicLink.updateMany({
+    where: {id, usedAt: null},
+    data: {usedAt},
+  })
+  if (count !== 1) {
+    throw new Error('Magic link already used. Please request a new one.')
+  }
+  await prisma.magicLink.updateMany({
+    where: {emailAddress, usedAt: null},
+    data: {usedAt},
+  })
 }
 
-async function validateMagicLink(link: string) {
-  let emailAddress, linkCreationDateString
+/**
+ * @returns the email address the link was sent to
+ */
+async function consumeMagicLink(link: string) {
+  let magicLinkId
   try {
     const url = new URL(link)
     const encryptedString = url.searchParams.get(magicLinkSearchParam) ?? '[]'
     const decryptedString = decrypt(encryptedString)
     const payload = JSON.parse(decryptedString) as MagicLinkPayload
-    emailAddress = payload.emailAddress
-    linkCreationDateString = payload.creationDate
+    magicLinkId = payload.magicLinkId
   } catch (error: unknown) {
     console.error(error)
     throw new Error('Invalid magic link.')
   }
 
-  if (typeof emailAddress !== 'string') {
-    console.error(`Email is not a string. Maybe wasn't set in the session?`)
+  if (typeof magicLinkId !== 'string') {
+    console.error('Magic link ID is not a string.')
     throw new Error('Invalid magic link.')
   }
 
-  if (typeof linkCreationDateString !== 'string') {
-    console.error('Link expiration is not a string.')
-    throw new Error('Invalid magic link.')
+  const magicLink = await prisma.magicLink.findUnique({
+    where: {id: magicLinkId},
+  })
+  if (!magicLink) throw new Error('Invalid magic link.')
+  if (magicLink.usedAt) {
+    throw new Error('Magic link already used. Please request a new one.')
   }
-
-  const linkCreationDate = new Date(linkCreationDateString)
-  const expirationTime = linkCreationDate.getTime() + linkExpirationTime
-  if (Date.now() > expirationTime) {
+  if (
+    Date.now() > magicLink.expirationDate.getTime() ||
+    magicLink.attempts >= maxMagicLinkCodeAttempts
+  ) {
     throw new Error('Magic link expired. Please request a new one.')
   }
+
+  await markMagicLinkUsed(magicLink)
+  return magicLink.emailAddress
+}
+
+/**
+ * Checks the code against the links we've sent to the email address. Every
+ * wrong guess counts against all of them, so after a few the person has to
+ * request a new one.
+ * @returns the email address the code was sent to
+ */
+async function consumeMagicLinkCode({
+  emailAddress,
+  code,
+}: {
+  emailAddress: string
+  code: string
+}) {
+  const where = getActiveMagicLinkFilter(emailAddress)
+  const magicLinks = await prisma.magicLink.findMany({
+    where,
+    select: {id: true, codeHash: true},
+  })
+  if (!magicLinks.length) {
+    throw new Error('That code has expired. Please request a new one.')
+  }
+
+  const codeHash = hash(code.replace(/\s/g, ''))
+  const magicLink = magicLinks.find(link => link.codeHash === codeHash)
+  if (!magicLink) {
+    await prisma.magicLink.updateMany({
+      where,
+      data: {attempts: {increment: 1}},
+    })
+    throw new Error(
+      `That code isn't right. Please check your email and try again.`,
+    )
+  }
+
+  await markMagicLinkUsed({id: magicLink.id, emailAddress})
   return emailAddress
 }
 
 async function createSession(
-  sessionData: Omit<Session, 'id' | 'expirationDate' | 'createdAt'>,
+  sessionData: Pick<Session, 'userId'> &
+    Partial<Pick<Session, 'userAgent' | 'region'>>,
 ) {
   return prisma.session.create({
     data: {
@@ -192,18 +297,91 @@ async function getUserFromSessionId(sessionId: string) {
     })
   }
 
+  // knowing when a session was last used is a nice to have, so we only write
+  // it every so often, without holding up the request, and only where we can
+  // write to the database.
+  if (
+    isPrimaryRegion &&
+    Date.now() - session.lastSeenAt.getTime() > lastSeenUpdateInterval
+  ) {
+    prisma.session
+      .update({data: {lastSeenAt: new Date()}, where: {id: sessionId}})
+      .catch((error: unknown) => {
+        console.error(`Failure updating when a session was last seen:`, error)
+      })
+  }
+
   return session.user
 }
 
+// The session id is what's in the session cookie, so it never leaves the
+// server. The browser gets this handle for a session instead.
+function getSessionHandle(sessionId: string) {
+  return hash(sessionId)
+}
+
+async function getUserSessions(userId: string) {
+  const sessions = await prisma.session.findMany({
+    where: {userId, expirationDate: {gt: new Date()}},
+    select: {
+      id: true,
+      createdAt: true,
+      lastSeenAt: true,
+      userAgent: true,
+      region: true,
+    },
+    orderBy: {lastSeenAt: 'desc'},
+  })
+  return sessions.map(({id, ...session}) => ({
+    ...session,
+    handle: getSessionHandle(id),
+  }))
+}
+
+async function deleteUserSession({
+  userId,
+  sessionHandle,
+}: {
+  userId: string
+  sessionHandle: string
+}) {
+  // NOTE: the userId makes sure people can only delete their own sessions
+  const sessions = await prisma.session.findMany({
+    where: {userId},
+    select: {id: true},
+  })
+  const session = sessions.find(
+    ({id}) => getSessionHandle(id) === sessionHandle,
+  )
+  if (!session) return
+  await prisma.session.deleteMany({where: {id: session.id, userId}})
+}
+
+async function deleteUserSessions(userId: string) {
+  await prisma.session.deleteMany({where: {userId}})
+}
+
 function getUserByEmail(email: string) {
   return prisma.user.findUnique({where: {email}})
 }
 
 async function deleteUser(userId: string) {
+  const calls = await prisma.call.findMany({
+    where: {userId},
+    select: {audioKey: true},
+  })
   await Promise.all([
     prisma.call.deleteMany({where: {userId}}),
+    ...calls.map(call => blobStore.del(call.audioKey)),
     prisma.postRead.deleteMany({where: {userId}}),
     prisma.session.deleteMany({where: {userId}}),
+    prisma.passkey.deleteMany({where: {userId}}),
+    prisma.emailChange.deleteMany({where: {userId}}),
+    prisma.readingProgress.deleteMany({where: {userId}}),
+    prisma.achievement.deleteMany({where: {userId}}),
+    prisma.readingStats.deleteMany({where: {userId}}),
+    prisma.rejectedPostRead.deleteMany({where: {userId}}),
+    prisma.bookmark.deleteMany({where: {userId}}),
   ])
   return prisma.user.delete({where: {id: userId}})
 }
@@ -232,7 +410,7 @@ async function addPostRead({
     where: {
       ...id,
       postSlug: slug,
-      createdAt: {gt: new Date(Date.now() - 1000 * 60 * 60 * 24 * 7)},
+      createdAt: {gt: new Date(Date.now() - postReadDedupeTime)},
     },
   })
   if (readInLastWeek) {
@@ -240,12 +418,102 @@ async function addPostRead({
   } else {
     const postRead = await prisma.postRead.create({
       data: {postSlug: slug, ...id},
-      select: {id: true},
+      select: {id: true, createdAt: true},
     })
     return postRead
   }
 }
 
+/**
+ * Gives the user credit for the posts they read before they signed in on this
+ * client. Reads they already have credit for are dropped rather than counted
+ * twice.
+ * @returns how many reads they were given
+ */
+async function claimClientPostReads({
+  clientId,
+  userId,
+}: {
+  clientId: string
+  userId: string
+}) {
+  const clientReads = await prisma.postRead.findMany({
+    where: {clientId, userId: null},
+    select: {id: true, postSlug: true, createdAt: true},
+  })
+  if (!clientReads.length) return 0
+
+  const userReads = await prisma.postRead.findMany({
+    where: {userId, postSlug: {in: clientReads.map(read => read.postSlug)}},
+    select: {postSlug: true, createdAt: true},
+  })
+  const duplicateIds = clientReads
+    .filter(clientRead =>
+      userReads.some(
+        userRead =>
+          userRead.postSlug === clientRead.postSlug &&
+          Math.abs(
+            userRead.createdAt.getTime() - clientRead.createdAt.getTime(),
+          ) < postReadDedupeTime,
+      ),
+    )
+    .map(read => read.id)
+
+  await prisma.$transaction([
+    prisma.postRead.deleteMany({where: {id: {in: duplicateIds}}}),
+    prisma.postRead.updateMany({
+      where: {id: {in: clientReads.map(read => read.id)}},
+      data: {userId, clientId: null},
+    }),
+    // their reading stats are rebuilt with these reads on their next read
+    prisma.readingStats.deleteMany({where: {userId}}),
+  ])
+  return clientReads.length - duplicateIds.length
+}
+
+/**
+ * Moves the reading progress they made on this client before they signed in
+ * to their account. If they've got progress on a post both ways, whichever
+ * was saved last wins.
+ */
+async function claimClientReadingProgress({
+  clientId,
+  userId,
+}: {
+  clientId: string
+  userId: string
+}) {
+  const clientProgress = await prisma.readingProgress.findMany({
+    where: {clientId, userId: null},
+    select: {id: true, postSlug: true, updatedAt: true},
+  })
+  if (!clientProgress.length) return
+
+  const userProgress = await prisma.readingProgress.findMany({
+    where: {
+      userId,
+      postSlug: {in: clientProgress.map(progress => progress.postSlug)},
+    },
+    select: {id: true, postSlug: true, updatedAt: true},
+  })
+  const staleIds: Array<string> = []
+  for (const progress of clientProgress) {
+    const existing = userProgress.find(p => p.postSlug === progress.postSlug)
+    if (!existing) continue
+    staleIds.push(
+      existing.updatedAt > progress.updatedAt ? progress.id : existing.id,
+    )
+  }
+
+  await prisma.$transaction([
+    prisma.readingProgress.deleteMany({where: {id: {in: staleIds}}}),
+    prisma.readingProgress.updateMany({
+      where: {id: {in: clientProgress.map(progress => progress.id)}},
+      data: {userId, clientId: null},
+    }),
+  ])
+}
+
 function getReplayResponse(request: Request, errorMessage?: string) {
   // depending on how the error is serialized, there may be quotes and escape
   // characters in the error message, so we'll use a regex instead of a regular includes.
@@ -287,16 +555,25 @@ async function getDataReplayResponse(request: Request, response: Response) {
 
 export {
   prisma,
-  getMagicLink,
-  validateMagicLink,
+  isPrimaryRegion,
+  createMagicLink,
+  consumeMagicLink,
+  consumeMagicLinkCode,
   linkExpirationTime,
   sessionExpirationTime,
   createSession,
   getUserFromSessionId,
+  getSessionHandle,
+  getUserSessions,
+  deleteUserSession,
+  deleteUserSessions,
   getUserByEmail,
   updateUser,
   deleteUser,
   addPostRead,
+  claimClientPostReads,
+  claimClientReadingProgress,
+  getReplayResponse,
   getDocumentReplayResponse,
   getDataReplayResponse,
 }
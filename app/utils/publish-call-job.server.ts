@@ -0,0 +1,432 @@
+// Publishing a Call Kent episode takes a while (stitching the audio with
+// ffmpeg.wasm and uploading it to Transistor) and any part of it can fail. So
+// rather than doing it all in the admin's request (and losing their response if
+// something goes wrong), the admin's response is saved as a DRAFT job with the
+// stitched episode so Kent can listen to it (and trim it) first. Publishing the
+// draft queues the job and a worker in the primary region works through the
+// queue, retrying failures with backoff.
+import crypto from 'crypto'
+import {format} from 'date-fns'
+import {Response} from 'remix'
+import type {PublishCallJob} from '@prisma/client'
+import type {Call, Request} from '~/types'
+import {prisma, isPrimaryRegion} from './prisma.server'
+import {blobStore} from './blob-store.server'
+import {getCallRecordingAudio, getEditedAudio} from './call-recordings.server'
+import {answerCall, markCallInReview} from './call-status.server'
+import {createEpisodeAudio} from './ffmpeg.server'
+import {publishEpisode, uploadEpisode} from './transistor.server'
+import {getAvatarForUser, getErrorMessage} from './misc'
+import type {AudioEdit, AudioTrim} from './call-kent'
+import {
+  defaultAudioPreset,
+  getAudioPreset,
+  getOutputContentType,
+  editRecording,
+} from './audio-pipeline'
+import {getUser} from './session.server'
+import {hasPermission} from './permissions'
+
+declare global {
+  // This prevents us from starting multiple workers when the require cache is
+  // cleared in development.
+  // eslint-disable-next-line
+  var publishCallJobWorker:
+    | {interval: ReturnType<typeof setInterval>; processing: boolean}
+    | undefined
+}
+
+const maxAttempts = 5
+const pollInterval = 1000 * 10
+// a job that's been RUNNING for this long was running on a server that died
+const staleLockTime = 1000 * 60 * 15
+
+// 30 seconds, 1 minute, 2 minutes, 4 minutes...
+const getRetryDelay = (attempts: number) => 1000 * 30 * 2 ** (attempts - 1)
+
+type DraftSettings = Pick<
+  PublishCallJob,
+  'audioPreset' | 'responseTrimStart' | 'responseTrimEnd'
+>
+
+function getPipeline(settings: DraftSettings) {
+  return editRecording(
+    getAudioPreset(settings.audioPreset).pipeline,
+    'response',
+    {
+      start: settings.responseTrimStart,
+      end: settings.responseTrimEnd,
+    },
+  )
+}
+
+async function stitchEpisode(
+  call: Pick<Call, 'id' | 'audioKey'>,
+  job: Pick<PublishCallJob, 'responseAudioKey'> & DraftSettings,
+) {
+  const responseAudio = await blobStore.get(job.responseAudioKey)
+  if (!responseAudio) {
+    throw new Error(`The response audio (${job.responseAudioKey}) is missing`)
+  }
+  return createEpisodeAudio(
+    {call: await getCallRecordingAudio(call), response: responseAudio},
+    getPipeline(job),
+  )
+}
+
+async function saveEpisodeAudio(episodeAudio: Buffer, settings: DraftSettings) {
+  const episodeAudioKey = `calls/episodes/${crypto.randomUUID()}`
+  const contentType = getOutputContentType(getPipeline(settings))
+  await blobStore.put(episodeAudioKey, episodeAudio, contentType)
+  return episodeAudioKey
+}
+
+async function deleteJobAudio(
+  job: Pick<PublishCallJob, 'responseAudioKey' | 'episodeAudioKey'>,
+) {
+  await blobStore.del(job.responseAudioKey)
+  if (job.episodeAudioKey) await blobStore.del(job.episodeAudioKey)
+}
+
+/**
+ * Stitches the response onto the call so it can be previewed. Any previous
+ * draft for the call is thrown away.
+ */
+async function createEpisodeDraft({
+  callId,
+  response,
+  title,
+  description,
+  keywords,
+  domainUrl,
+  responseEdit,
+}: {
+  callId: string
+  response: string
+  responseEdit: AudioEdit
+  title: string
+  description: string
+  keywords: string
+  domainUrl: string
+}) {
+  const call = await prisma.call.findUnique({
+    where: {id: callId},
+    select: {id: true, audioKey: true},
+  })
+  if (!call) throw new Error(`The call ${callId} no longer exists`)
+
+  const {contentType, audio} = await getEditedAudio(response, responseEdit)
+  const responseAudioKey = `calls/responses/${crypto.randomUUID()}`
+  await blobStore.put(responseAudioKey, audio, contentType)
+
+  const settings: DraftSettings = {
+    audioPreset: defaultAudioPreset.id,
+    responseTrimStart: 0,
+    responseTrimEnd: null,
+  }
+  const episodeAudio = await createEpisodeAudio(
+    {call: await getCallRecordingAudio(call), response: audio},
+    getPipeline(settings),
+  )
+  const episodeAudioKey = await saveEpisodeAudio(episodeAudio, settings)
+
+  const drafts = await prisma.publishCallJob.findMany({
+    where: {callId, status: 'DRAFT'},
+    select: {id: true},
+  })
+  await Promise.all(drafts.map(draft => discardEpisodeDraft(draft.id)))
+  await markCallInReview(callId)
+
+  return prisma.publishCallJob.create({
+    data: {
+      callId,
+      status: 'DRAFT',
+      responseAudioKey,
+      responseAudioContentType: contentType,
+      episodeAudioKey,
+      ...settings,
+      title,
+      description,
+      keywords,
+      domainUrl,
+    },
+  })
+}
+
+async function getEpisodeDraft(jobId: string) {
+  const job = await prisma.publishCallJob.findFirst({
+    where: {id: jobId, status: 'DRAFT'},
+  })
+  if (!job) throw new Error(`There's no draft episode with the id ${jobId}`)
+  return job
+}
+
+/**
+ * Re-stitches the draft with a different audio preset or the response trimmed
+ */
+async function updateEpisodeDraft(
+  jobId: string,
+  {audioPreset, responseTrim}: {audioPreset: string; responseTrim: AudioTrim},
+) {
+  const job = await getEpisodeDraft(jobId)
+  const call = await prisma.call.findUnique({
+    where: {id: job.callId},
+    select: {id: true, audioKey: true},
+  })
+  if (!call) throw new Error(`The call ${job.callId} no longer exists`)
+
+  const settings: DraftSettings = {
+    audioPreset,
+    responseTrimStart: responseTrim.start,
+    responseTrimEnd: responseTrim.end,
+  }
+  const episodeAudioKey = await saveEpisodeAudio(
+    await stitchEpisode(call, {...job, ...settings}),
+    settings,
+  )
+  await prisma.publishCallJob.update({
+    where: {id: job.id},
+    data: {episodeAudioKey, ...settings},
+  })
+  if (job.episodeAudioKey) await blobStore.del(job.episodeAudioKey)
+}
+
+async function discardEpisodeDraft(jobId: string) {
+  const job = await prisma.publishCallJob.findFirst({
+    where: {id: jobId, status: 'DRAFT'},
+  })
+  if (!job) return
+  await prisma.publishCallJob.delete({where: {id: job.id}})
+  await deleteJobAudio(job)
+}
+
+async function publishEpisodeDraft(
+  jobId: string,
+  {callerNote}: {callerNote: string | null},
+) {
+  await prisma.publishCallJob.updateMany({
+    where: {id: jobId, status: 'DRAFT'},
+    data: {status: 'QUEUED', runAt: new Date(), callerNote},
+  })
+  // no need to wait for the next poll
+  void processPublishCallJobs()
+}
+
+function getLatestPublishCallJob(callId: string) {
+  return prisma.publishCallJob.findFirst({
+    where: {callId},
+    orderBy: {createdAt: 'desc'},
+  })
+}
+
+async function retryPublishCallJob(jobId: string) {
+  await prisma.publishCallJob.updateMany({
+    where: {id: jobId, status: 'FAILED'},
+    data: {status: 'QUEUED', attempts: 0, runAt: new Date(), lastError: null},
+  })
+  void processPublishCallJobs()
+}
+
+async function claimNextJob() {
+  const staleLockDate = new Date(Date.now() - staleLockTime)
+  // SKIP LOCKED makes sure two workers never get the same job
+  const [claimed] = await prisma.$queryRaw<Array<{id: string}>>`
+    UPDATE "PublishCallJob"
+    SET "status" = 'RUNNING', "lockedAt" = now(), "attempts" = "attempts" + 1, "updatedAt" = now()
+    WHERE "id" = (
+      SELECT "id" FROM "PublishCallJob"
+      WHERE ("status" = 'QUEUED' AND "runAt" <= now())
+        OR ("status" = 'RUNNING' AND "lockedAt" < ${staleLockDate})
+      ORDER BY "runAt"
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING "id"
+  `
+  if (!claimed) return null
+  return prisma.publishCallJob.findUnique({where: {id: claimed.id}})
+}
+
+function setProgress(jobId: string, progress: string) {
+  return prisma.publishCallJob.update({
+    where: {id: jobId},
+    data: {progress},
+  })
+}
+
+async function runJob(job: PublishCallJob) {
+  const call = await prisma.call.findUnique({
+    where: {id: job.callId},
+    include: {user: true},
+  })
+
+  let transistorEpisodeId = job.transistorEpisodeId
+  if (!transistorEpisodeId) {
+    if (!call) {
+      throw new Error(`The call ${job.callId} no longer exists`)
+    }
+    let episodeAudio = job.episodeAudioKey
+      ? await blobStore.get(job.episodeAudioKey)
+      : null
+    // this is the episode Kent previewed, but if it's gone missing we can
+    // stitch it together again.
+    if (!episodeAudio) {
+      await setProgress(job.id, 'Stitching the episode audio')
+      episodeAudio = await stitchEpisode(call, job)
+    }
+
+    await setProgress(job.id, 'Uploading the episode to Transistor')
+    transistorEpisodeId = await uploadEpisode({
+      audio: episodeAudio,
+      audioFormat: getPipeline(job).output.format,
+      title: job.title,
+      summary: `${call.user.firstName} asked this on ${format(
+        call.createdAt,
+        'yyyy-MM-dd',
+      )}`,
+      description: job.description,
+      keywords: job.keywords,
+      imageUrl: getAvatarForUser(call.user, {size: 800}).src,
+    })
+    await prisma.publishCallJob.update({
+      where: {id: job.id},
+      data: {transistorEpisodeId},
+    })
+  }
+
+  await setProgress(job.id, 'Publishing the episode')
+  const {episodePath} = await publishEpisode({
+    episodeId: transistorEpisodeId,
+    domainUrl: job.domainUrl,
+  })
+
+  await prisma.publishCallJob.update({
+    where: {id: job.id},
+    data: {
+      status: 'SUCCEEDED',
+      progress: 'Published',
+      lockedAt: null,
+      lastError: null,
+      episodePath,
+    },
+  })
+
+  // now that it's published, we don't need Kent's audio anymore. The call
+  // (and its recording) stays around so the caller can see it was answered.
+  // The job has succeeded at this point, so if any of this fails it mustn't be
+  // retried (that would publish the episode and email the caller again).
+  try {
+    await deleteJobAudio(job)
+    if (call) {
+      await answerCall({
+        callId: call.id,
+        note: job.callerNote,
+        episodePath,
+        domainUrl: job.domainUrl,
+      })
+    }
+  } catch (error: unknown) {
+    console.error(
+      `PublishCallJob ${job.id} published but failed cleaning up:`,
+      getErrorMessage(error),
+    )
+  }
+}
+
+async function failJob(job: PublishCallJob, error: unknown) {
+  const lastError = getErrorMessage(error)
+  console.error(
+    `PublishCallJob ${job.id} failed (attempt ${job.attempts} of ${maxAttempts}):`,
+    lastError,
+  )
+  const willRetry = job.attempts < maxAttempts
+  await prisma.publishCallJob.update({
+    where: {id: job.id},
+    data: {
+      status: willRetry ? 'QUEUED' : 'FAILED',
+      runAt: new Date(Date.now() + getRetryDelay(job.attempts)),
+      lockedAt: null,
+      lastError,
+    },
+  })
+}
+
+async function processPublishCallJobs() {
+  const worker = global.publishCallJobWorker
+  // ffmpeg.wasm can only stitch one episode at a time, so we only ever run one
+  // job at a time in this process.
+  if (!worker || worker.processing) return
+  worker.processing = true
+  try {
+    let job = await claimNextJob()
+    while (job) {
+      try {
+        // eslint-disable-next-line no-await-in-loop
+        await runJob(job)
+      } catch (error: unknown) {
+        // eslint-disable-next-line no-await-in-loop
+        await failJob(job, error)
+      }
+      // eslint-disable-next-line no-await-in-loop
+      job = await claimNextJob()
+    }
+  } catch (error: unknown) {
+    console.error('Error processing PublishCallJobs', getErrorMessage(error))
+  } finally {
+    worker.processing = false
+  }
+}
+
+function startPublishCallJobWorker() {
+  // only the primary region can write to the database
+  if (!isPrimaryRegion || global.publishCallJobWorker) return
+  global.publishCallJobWorker = {
+    interval: setInterval(() => void processPublishCallJobs(), pollInterval),
+    processing: false,
+  }
+}
+
+// the draft audio is only available to the people who publish episodes so
+// they can preview them
+async function getEpisodeDraftAudioResponse(request: Request) {
+  const searchParams = new URL(request.url).searchParams
+  const jobId = searchParams.get('jobId')
+  const user = await getUser(request)
+  if (!jobId || !hasPermission(user, 'publishCalls')) {
+    return new Response('Not found', {status: 404})
+  }
+
+  const job = await prisma.publishCallJob.findFirst({
+    where: {id: jobId, status: 'DRAFT'},
+  })
+  if (!job) return new Response('Not found', {status: 404})
+
+  const isResponse = searchParams.get('audio') === 'response'
+  const audioKey = isResponse ? job.responseAudioKey : job.episodeAudioKey
+  const audio = audioKey ? await blobStore.get(audioKey) : null
+  if (!audio) return new Response('Not found', {status: 404})
+
+  return new Response(audio, {
+    headers: {
+      'Content-Type': isResponse
+        ? job.responseAudioContentType
+        : getOutputContentType(getPipeline(job)),
+      'Content-Length': String(audio.length),
+      // the url changes whenever the draft does
+      'Cache-Control': 'private, max-age=3600',
+    },
+  })
+}
+
+startPublishCallJobWorker()
+
+export {
+  createEpisodeDraft,
+  updateEpisodeDraft,
+  discardEpisodeDraft,
+  publishEpisodeDraft,
+  getEpisodeDraftAudioResponse,
+  getLatestPublishCallJob,
+  retryPublishCallJob,
+  maxAttempts as maxPublishCallJobAttempts,
+}
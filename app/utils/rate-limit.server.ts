@@ -0,0 +1,79 @@
+// Keeps people (and bots) from doing expensive things over and over again,
+// like sending emails or uploading recordings. Each route says how many times
+// something can be done in a window of time, both from a single IP address and
+// for a single user or email address. Counts live in redis, and if redis is
+// having trouble we let the request through rather than lock everyone out.
+import type {Request} from '~/types'
+import {increment} from './redis.server'
+
+type RateLimitWindow = {
+  max: number
+  // in milliseconds
+  window: number
+}
+
+type RateLimit = {
+  // used in the redis keys, so it should be unique per route
+  name: string
+  perIp: RateLimitWindow
+  // a user ID or email address
+  perIdentifier?: RateLimitWindow
+}
+
+type RateLimited = {
+  message: string
+  headers: {'Retry-After': string}
+}
+
+function getClientIp(request: Request) {
+  return (
+    request.headers.get('Fly-Client-IP') ??
+    request.headers.get('X-Forwarded-For')?.split(',')[0]?.trim() ??
+    'unknown'
+  )
+}
+
+function formatRetryTime(milliseconds: number) {
+  const minutes = Math.ceil(milliseconds / 1000 / 60)
+  if (minutes < 2) return 'a minute'
+  if (minutes < 90) return `${minutes} minutes`
+  return `${Math.ceil(minutes / 60)} hours`
+}
+
+async function checkWindow(key: string, {max, window}: RateLimitWindow) {
+  const result = await increment(`rate-limit:${key}`, window)
+  if (!result || result.count <= max) return null
+  return result.expiresIn > 0 ? result.expiresIn : window
+}
+
+/**
+ * Counts this request against the route's limits.
+ * @returns null if the request is allowed, otherwise a message to show and
+ * headers to send with the 429 response
+ */
+async function rateLimit(
+  request: Request,
+  {name, perIp, perIdentifier}: RateLimit,
+  identifier?: string,
+): Promise<RateLimited | null> {
+  const retryIns = await Promise.all([
+    checkWindow(`${name}:ip:${getClientIp(request)}`, perIp),
+    perIdentifier && identifier
+      ? checkWindow(
+          `${name}:id:${identifier.trim().toLowerCase()}`,
+          perIdentifier,
+        )
+      : null,
+  ])
+  const retryIn = Math.max(...retryIns.map(time => time ?? 0))
+  if (!retryIn) return null
+
+  const retryTime = formatRetryTime(retryIn)
+  return {
+    message: `Whoa there, that's a lot of requests! Please try again in ${retryTime}.`,
+    headers: {'Retry-After': String(Math.ceil(retryIn / 1000))},
+  }
+}
+
+export {rateLimit, getClientIp}
+export type {RateLimit}
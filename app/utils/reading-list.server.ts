@@ -0,0 +1,81 @@
+// What members have read and what they've saved to read later, for /me and the
+// bookmark buttons on the blog.
+import {prisma} from './prisma.server'
+import {getBlogMdxListItems} from './mdx'
+import {typedBoolean} from './misc'
+
+async function getBookmarkedSlugs(userId: string) {
+  const bookmarks = await prisma.bookmark.findMany({
+    where: {userId},
+    select: {postSlug: true},
+  })
+  return bookmarks.map(bookmark => bookmark.postSlug)
+}
+
+async function setBookmark({
+  userId,
+  slug,
+  bookmarked,
+}: {
+  userId: string
+  slug: string
+  bookmarked: boolean
+}) {
+  if (bookmarked) {
+    await prisma.bookmark.upsert({
+      where: {userId_postSlug: {userId, postSlug: slug}},
+      create: {userId, postSlug: slug},
+      update: {},
+    })
+  } else {
+    await prisma.bookmark.deleteMany({where: {userId, postSlug: slug}})
+  }
+}
+
+/**
+ * @returns the posts they've saved, most recently saved first
+ */
+async function getReadingList(userId: string) {
+  const [bookmarks, posts] = await Promise.all([
+    prisma.bookmark.findMany({
+      where: {userId},
+      select: {postSlug: true},
+      orderBy: {createdAt: 'desc'},
+    }),
+    getBlogMdxListItems({forceFresh: false}),
+  ])
+  return bookmarks
+    .map(({postSlug}) => posts.find(post => post.slug === postSlug))
+    .filter(typedBoolean)
+}
+
+/**
+ * @returns the posts they've read with when they last read them, most recent
+ * first. Posts that no longer exist are left out.
+ */
+async function getReadingHistory(userId: string) {
+  const [reads, posts] = await Promise.all([
+    prisma.postRead.groupBy({
+      by: ['postSlug'],
+      where: {userId},
+      _max: {createdAt: true},
+      _count: true,
+      orderBy: {_max: {createdAt: 'desc'}},
+    }),
+    getBlogMdxListItems({forceFresh: false}),
+  ])
+  return reads
+    .map(({postSlug, _max, _count}) => {
+      const post = posts.find(p => p.slug === postSlug)
+      if (!post || !_max.createdAt) return null
+      return {
+        slug: post.slug,
+        title: post.frontmatter.title ?? post.slug,
+        lastReadAt: _max.createdAt,
+        readCount: _count,
+      }
+    })
+    .filter(typedBoolean)
+}
+
+export {getBookmarkedSlugs, setBookmark, getReadingList, getReadingHistory}
@@ -0,0 +1,89 @@
+// How far people have scrolled through the posts they've started, so /blog can
+// show it and a post can offer to pick up where they left off. This is separate
+// from PostRead: a post only counts as read once they've spent enough time on
+// it and reached the end (see useOnRead in blog.$slug.tsx), no matter what
+// their progress says.
+import type {Request} from '~/types'
+import {prisma} from './prisma.server'
+import {getSession} from './session.server'
+import {getClientSession} from './client.server'
+
+// we don't bother offering to resume a post they've barely started or finished
+const minResumePercent = 5
+const maxResumePercent = 95
+
+type Reader = {userId: string} | {clientId: string}
+
+async function getReader(request: Request): Promise<Reader> {
+  const session = await getSession(request)
+  const user = await session.getUser()
+  if (user) return {userId: user.id}
+  const client = await getClientSession(request)
+  return {clientId: client.getClientId()}
+}
+
+async function saveReadingProgress({
+  slug,
+  percent,
+  lastHeadingId,
+  ...reader
+}: {
+  slug: string
+  percent: number
+  lastHeadingId: string | null
+} & Reader) {
+  const data = {
+    percent: Math.min(Math.max(Math.round(percent), 0), 100),
+    lastHeadingId,
+  }
+  if ('userId' in reader) {
+    await prisma.readingProgress.upsert({
+      where: {userId_postSlug: {userId: reader.userId, postSlug: slug}},
+      create: {...data, userId: reader.userId, postSlug: slug},
+      update: data,
+    })
+  } else {
+    await prisma.readingProgress.upsert({
+      where: {clientId_postSlug: {clientId: reader.clientId, postSlug: slug}},
+      create: {...data, clientId: reader.clientId, postSlug: slug},
+      update: data,
+    })
+  }
+}
+
+/**
+ * @returns where to pick the post back up, or null if there's nothing to resume
+ */
+async function getResumePosition(request: Request, slug: string) {
+  const reader = await getReader(request)
+  const progress = await prisma.readingProgress.findFirst({
+    where: {...reader, postSlug: slug},
+    select: {percent: true, lastHeadingId: true},
+  })
+  if (
+    !progress?.lastHeadingId ||
+    progress.percent < minResumePercent ||
+    progress.percent > maxResumePercent
+  ) {
+    return null
+  }
+  return {percent: progress.percent, headingId: progress.lastHeadingId}
+}
+
+/**
+ * @returns the percent of each post the reader has gotten through by its slug
+ */
+async function getReadingProgressBySlug(request: Request) {
+  const reader = await getReader(request)
+  const progress = await prisma.readingProgress.findMany({
+    where: reader,
+    select: {postSlug: true, percent: true},
+  })
+  const progressBySlug: Record<string, number> = {}
+  for (const {postSlug, percent} of progress) {
+    progressBySlug[postSlug] = percent
+  }
+  return progressBySlug
+}
+
+export {saveReadingProgress, getResumePosition, getReadingProgressBySlug}
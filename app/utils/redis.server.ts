@@ -115,5 +115,37 @@ function del(key: string): Promise<string> {
   })
 }
 
+/**
+ * Counts up the number stored at the key, starting a new count that expires
+ * after the given number of milliseconds if there isn't one yet. Counts are
+ * kept in the primary so every region counts toward the same number.
+ * @returns the new count and how many milliseconds are left before it expires
+ */
+function increment(
+  key: string,
+  expireIn: number,
+): Promise<{count: number; expiresIn: number} | null> {
+  // in the primary region, the replica is the primary
+  const client = primaryClient ?? replicaClient
+  return new Promise(resolve => {
+    client
+      .multi()
+      .set(key, '0', 'PX', expireIn, 'NX')
+      .incr(key)
+      .pttl(key)
+      .exec((err: Error | null, replies: Array<unknown> | null) => {
+        if (err || !replies) {
+          console.error(
+            `REDIS primary (${PRIMARY_REGION}) ERROR with .increment:`,
+            err,
+          )
+          resolve(null)
+        } else {
+          resolve({count: Number(replies[1]), expiresIn: Number(replies[2])})
+        }
+      })
+  })
+}
+
 const redisCache = {get, set, del}
-export {get, set, del, redisCache}
+export {get, set, del, increment, redisCache}
@@ -0,0 +1,318 @@
+// Site-wide search across the blog, both podcasts, talks and workshops. We
+// build a single index of plain-text documents (which is cached in redis and
+// rebuilt by the GitHub webhook whenever content changes) and rank matches in
+// memory at query time. The index is small enough that this is plenty fast.
+import type {Request} from '~/types'
+import {getBlogMdxListItems, downloadMdxFilesCached} from './mdx'
+import {getSeasons} from './simplecast.server'
+import {getEpisodes} from './transistor.server'
+import {getTalksAndTags} from './talks.server'
+import {getWorkshops} from './workshops.server'
+import {markdownToHtml, stripHtml} from './markdown.server'
+import {getCWKEpisodePath} from './chats-with-kent'
+import {getEpisodePath} from './call-kent'
+import {redisCache} from './redis.server'
+import {cachified} from './cache.server'
+import type {Timings} from './metrics.server'
+
+type SearchDocumentType = 'blog' | 'chats' | 'calls' | 'talks' | 'workshops'
+
+type SearchDocument = {
+  type: SearchDocumentType
+  title: string
+  url: string
+  description: string
+  keywords: Array<string>
+  body: string
+}
+
+type SnippetPart = {text: string; highlight: boolean}
+
+type SearchResult = Omit<SearchDocument, 'body' | 'keywords'> & {
+  score: number
+  snippet: Array<SnippetPart>
+}
+
+const searchIndexKey = 'search:index'
+// every term is run over every document, so anything past these is ignored
+const maxQueryLength = 100
+const maxQueryTerms = 10
+
+function normalizeWhitespace(text: string) {
+  return text.replace(/\s+/g, ' ').trim()
+}
+
+async function htmlToText(html: string) {
+  return normalizeWhitespace(await stripHtml(html))
+}
+
+async function mdxToText(mdx: string) {
+  const markdown = mdx
+    // frontmatter is already in the document's title/description/keywords
+    .replace(/^---\r?\n[\s\S]*?\r?\n---\r?\n/, '')
+    // and the import/export statements are not something people search for
+    .replace(/^(import|export)\s.*$/gm, '')
+  return htmlToText(await markdownToHtml(markdown))
+}
+
+async function getBlogDocuments(): Promise<Array<SearchDocument>> {
+  const posts = await getBlogMdxListItems({})
+  const documents = await Promise.all(
+    posts.map(async post => {
+      const files = await downloadMdxFilesCached('blog', post.slug, {})
+      const indexFile = files.find(({path}) => /index\.mdx?$/.test(path))
+      return {
+        type: 'blog' as const,
+        title: post.frontmatter.title ?? post.slug,
+        url: `/blog/${post.slug}`,
+        description: post.frontmatter.description ?? '',
+        keywords: [
+          ...(post.frontmatter.categories ?? []),
+          ...(post.frontmatter.meta?.keywords ?? []),
+        ],
+        body: indexFile ? await mdxToText(indexFile.content) : '',
+      }
+    }),
+  )
+  return documents
+}
+
+async function getChatsDocuments(): Promise<Array<SearchDocument>> {
+  const seasons = await getSeasons()
+  return Promise.all(
+    seasons
+      .flatMap(season => season.episodes)
+      .map(async episode => ({
+        type: 'chats' as const,
+        title: episode.title,
+        url: getCWKEpisodePath(episode),
+        description: episode.description,
+        keywords: [
+          ...(episode.meta?.keywords ?? []),
+          ...episode.guests.map(guest => guest.name),
+        ],
+        body: await htmlToText(episode.transcriptHTML),
+      })),
+  )
+}
+
+async function getCallsDocuments(): Promise<Array<SearchDocument>> {
+  const episodes = await getEpisodes({})
+  return Promise.all(
+    episodes.map(async episode => ({
+      type: 'calls' as const,
+      title: episode.title,
+      url: getEpisodePath(episode),
+      description: episode.summary,
+      keywords: episode.keywords
+        .split(',')
+        .map(keyword => keyword.trim())
+        .filter(Boolean),
+      body: await htmlToText(episode.description),
+    })),
+  )
+}
+
+async function getTalksDocuments(): Promise<Array<SearchDocument>> {
+  const {talks} = await getTalksAndTags({})
+  return Promise.all(
+    talks.map(async talk => {
+      const body = talk.descriptionHTML
+        ? await htmlToText(talk.descriptionHTML)
+        : ''
+      return {
+        type: 'talks' as const,
+        title: talk.title,
+        url: `/talks/${talk.slug}`,
+        description: body,
+        keywords: talk.tags,
+        body,
+      }
+    }),
+  )
+}
+
+async function getWorkshopsDocuments(): Promise<Array<SearchDocument>> {
+  const workshops = await getWorkshops({})
+  return Promise.all(
+    workshops.map(async workshop => {
+      const topics = await Promise.all(
+        workshop.topicHTMLs.map(topicHTML => htmlToText(topicHTML)),
+      )
+      return {
+        type: 'workshops' as const,
+        title: workshop.title,
+        url: `/workshops/${workshop.slug}`,
+        description: workshop.description,
+        keywords: workshop.categories,
+        body: topics.join(' — '),
+      }
+    }),
+  )
+}
+
+async function getSearchIndex({
+  request,
+  forceFresh,
+  timings,
+}: {
+  request?: Request
+  forceFresh?: boolean
+  timings?: Timings
+}) {
+  return cachified({
+    cache: redisCache,
+    key: searchIndexKey,
+    maxAge: 1000 * 60 * 60 * 24,
+    request,
+    forceFresh,
+    timings,
+    checkValue: (value: unknown) =>
+      Array.isArray(value) &&
+      value.every(v => typeof v.url === 'string' && typeof v.body === 'string'),
+    getFreshValue: async () => {
+      // we intentionally don't forward the request to these so an admin
+      // forcing a fresh search index doesn't also recompile every blog post.
+      const documents = await Promise.all([
+        getBlogDocuments(),
+        getChatsDocuments(),
+        getCallsDocuments(),
+        getTalksDocuments(),
+        getWorkshopsDocuments(),
+      ])
+      return documents.flat()
+    },
+  })
+}
+
+function escapeRegExp(string: string) {
+  return string.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+function getQueryTerms(query: string) {
+  const terms = query
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(term => term.length > 1)
+  return Array.from(new Set(terms)).slice(0, maxQueryTerms)
+}
+
+// matches any word that starts with the term ("test" matches "testing")
+function getTermRegExp(terms: Array<string>) {
+  return new RegExp(
+    `(?<![\\p{L}\\p{N}])(?:${terms
+      .map(escapeRegExp)
+      .join('|')})[\\p{L}\\p{N}]*`,
+    'giu',
+  )
+}
+
+function countMatches(text: string, termRegExp: RegExp) {
+  termRegExp.lastIndex = 0
+  let count = 0
+  while (termRegExp.exec(text)) count++
+  return count
+}
+
+function scoreDocument(
+  document: SearchDocument,
+  termRegExps: Array<RegExp>,
+  query: string,
+) {
+  const fields = [
+    {text: document.title, weight: 10},
+    {text: document.keywords.join(' '), weight: 5},
+    {text: document.description, weight: 3},
+    {text: document.body, weight: 1},
+  ]
+  let score = 0
+  for (const termRegExp of termRegExps) {
+    let termScore = 0
+    for (const {text, weight} of fields) {
+      // log damping so a long transcript saying "react" 200 times doesn't
+      // bury a blog post with "react" in the title.
+      termScore += weight * Math.log2(1 + countMatches(text, termRegExp))
+    }
+    // every term has to match somewhere
+    if (termScore === 0) return 0
+    score += termScore
+  }
+  if (
+    termRegExps.length > 1 &&
+    document.title.toLowerCase().includes(query.toLowerCase())
+  ) {
+    score += 20
+  }
+  return score
+}
+
+function getSnippet(
+  document: SearchDocument,
+  terms: Array<string>,
+  {length = 200} = {},
+): Array<SnippetPart> {
+  const text = document.body || document.description
+  const termRegExp = getTermRegExp(terms)
+  termRegExp.lastIndex = 0
+  const firstMatch = termRegExp.exec(text)
+
+  let start = firstMatch ? Math.max(0, firstMatch.index - length / 4) : 0
+  let end = Math.min(text.length, start + length)
+  // don't cut words in half
+  if (start > 0) start = text.indexOf(' ', start) + 1
+  if (end < text.length) end = Math.max(start, text.lastIndexOf(' ', end))
+  const excerpt = `${start > 0 ? '…' : ''}${text.slice(start, end)}${
+    end < text.length ? '…' : ''
+  }`
+
+  const parts: Array<SnippetPart> = []
+  let lastIndex = 0
+  termRegExp.lastIndex = 0
+  for (const match of excerpt.matchAll(termRegExp)) {
+    const index = match.index ?? 0
+    if (index > lastIndex) {
+      parts.push({text: excerpt.slice(lastIndex, index), highlight: false})
+    }
+    parts.push({text: match[0], highlight: true})
+    lastIndex = index + match[0].length
+  }
+  if (lastIndex < excerpt.length) {
+    parts.push({text: excerpt.slice(lastIndex), highlight: false})
+  }
+  return parts
+}
+
+async function searchSite(
+  query: string,
+  {
+    request,
+    timings,
+    limit = 20,
+  }: {request?: Request; timings?: Timings; limit?: number} = {},
+): Promise<Array<SearchResult>> {
+  const trimmedQuery = query.slice(0, maxQueryLength)
+  const terms = getQueryTerms(trimmedQuery)
+  if (!terms.length) return []
+  const termRegExps = terms.map(term => getTermRegExp([term]))
+
+  const index = await getSearchIndex({request, timings})
+  return index
+    .map(document => ({
+      document,
+      score: scoreDocument(document, termRegExps, trimmedQuery),
+    }))
+    .filter(({score}) => score > 0)
+    .sort((a, z) => z.score - a.score)
+    .slice(0, limit)
+    .map(({document, score}) => ({
+      type: document.type,
+      title: document.title,
+      url: document.url,
+      description: document.description,
+      score,
+      snippet: getSnippet(document, terms),
+    }))
+}
+
+export {getSearchIndex, searchIndexKey, searchSite}
+export type {SearchDocumentType, SearchResult, SnippetPart}
@@ -51,10 +51,12 @@ async function sendEmail({to, from, subject, text, html}: MailgunMessage) {
 async function sendMagicLinkEmail({
   emailAddress,
   confirmationLink,
+  code,
   userExists,
 }: {
   emailAddress: string
   confirmationLink: string
+  code: string
   userExists: boolean
 }) {
   const sender = `"Kent C. Dodds Team" <team@kentcdodds.com>`
@@ -64,12 +66,16 @@ Here's your sign-in link for kentcdodds.com:
 
 ${confirmationLink}
 
+Or, if you'd rather sign in on the device you asked for this email on, enter this code on the login page: **${code}**
+
+You can use the link or the code, but only once. Both expire in 30 minutes.
+
 ${
   userExists
     ? `Welcome back ${emailAddress}!`
     : `
-Clicking the link above will create a *new* account on kentcdodds.com with the email ${emailAddress}. Welcome!
-If you'd instead like to change your email address for an existing account, please send an email to team+email-change@kentcdodds.com from the original email address.
+Using the link or code above will create a *new* account on kentcdodds.com with the email ${emailAddress}. Welcome!
+If you'd instead like to change the email address for an existing account, sign in with the original email address and change it on your account page.
       `.trim()
 }
 
@@ -91,9 +97,127 @@ P.S. If you did not request this email, you can safely ignore it.
   await sendEmail(message)
 }
 
-export {sendEmail, sendMagicLinkEmail}
+async function sendCallStatusEmail({
+  emailAddress,
+  firstName,
+  callTitle,
+  status,
+  note,
+  link,
+}: {
+  emailAddress: string
+  firstName: string
+  callTitle: string
+  status: 'ANSWERED' | 'DECLINED'
+  note: string | null
+  // the episode for answered calls, the call itself for declined ones
+  link: string
+}) {
+  const sender = `"Kent C. Dodds Team" <team@kentcdodds.com>`
+
+  const body = `
+Hi ${firstName},
+
+${
+  status === 'ANSWERED'
+    ? `Kent answered your call "${callTitle}" on the Call Kent Podcast! Have a listen:`
+    : `Kent decided not to answer your call "${callTitle}" on the Call Kent Podcast. You can still find your call here:`
+}
+
+${link}
+
+${
+  note ? `Here's a note from Kent:\n\n> ${note.split('\n').join('\n> ')}\n` : ''
+}
+Thanks for calling!
+
+– The KCD Team
+  `.trim()
+
+  const message = {
+    from: sender,
+    to: emailAddress,
+    subject:
+      status === 'ANSWERED'
+        ? `Kent answered your call: ${callTitle}`
+        : `An update on your call: ${callTitle}`,
+    text: body,
+    html: await markdownToHtmlDocument(body),
+  }
+
+  await sendEmail(message)
+}
+
+async function sendEmailChangeConfirmationEmail({
+  oldEmail,
+  newEmail,
+  firstName,
+  confirmationLink,
+}: {
+  oldEmail: string
+  newEmail: string
+  firstName: string
+  confirmationLink: string
+}) {
+  const sender = `"Kent C. Dodds Team" <team@kentcdodds.com>`
 
-/*
-eslint
-  max-statements: "off",
-*/
+  const body = `
+Hi ${firstName},
+
+To change the email address for your kentcdodds.com account from ${oldEmail} to ${newEmail}, use this link:
+
+${confirmationLink}
+
+It expires in 30 minutes.
+
+Thanks!
+
+– The KCD Team
+
+P.S. If you did not ask to change your email address, you can safely ignore this email and nothing will change.
+  `.trim()
+
+  await sendEmail({
+    from: sender,
+    to: newEmail,
+    subject: `Confirm your new email address for kentcdodds.com`,
+    text: body,
+  })
+}
+
+async function sendEmailChangedEmail({
+  oldEmail,
+  newEmail,
+  firstName,
+}: {
+  oldEmail: string
+  newEmail: string
+  firstName: string
+}) {
+  const sender = `"Kent C. Dodds Team" <team@kentcdodds.com>`
+
+  const body = `
+Hi ${firstName},
+
+The email address for your kentcdodds.com account has been changed from ${oldEmail} to ${newEmail}. From now on, sign in with ${newEmail}.
+
+If you didn't make this change, please reply to this email right away.
+
+– The KCD Team
+  `.trim()
+
+  await sendEmail({
+    from: sender,
+    to: oldEmail,
+    subject: `Your kentcdodds.com email address has been changed`,
+    text: body,
+  })
+}
+
+export {
+  sendEmail,
+  sendMagicLinkEmail,
+  sendCallStatusEmail,
+  sendEmailChangeConfirmationEmail,
+  sendEmailChangedEmail,
+}
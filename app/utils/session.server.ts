@@ -4,14 +4,21 @@ import type {User} from '@prisma/client'
 import {sendMagicLinkEmail} from './send-email.server'
 import {
   getUserByEmail,
-  getMagicLink,
+  createMagicLink,
   getUserFromSessionId,
   prisma,
-  validateMagicLink,
+  consumeMagicLink,
+  consumeMagicLinkCode,
   createSession,
   sessionExpirationTime,
+  claimClientPostReads,
+  claimClientReadingProgress,
 } from './prisma.server'
+import {getClientSession} from './client.server'
+import {rebuildAchievements} from './achievements.server'
 import {getRequiredServerEnvVar} from './misc'
+import type {Permission} from './permissions'
+import {hasPermission} from './permissions'
 
 const sessionIdKey = '__session_id__'
 
@@ -32,7 +39,10 @@ async function sendToken({
   emailAddress: string
   domainUrl: string
 }) {
-  const confirmationLink = getMagicLink({emailAddress, domainUrl})
+  const {link: confirmationLink, code} = await createMagicLink({
+    emailAddress,
+    domainUrl,
+  })
 
   const user = await getUserByEmail(emailAddress).catch(() => {
     /* ignore... */
@@ -41,6 +51,7 @@ async function sendToken({
   await sendMagicLinkEmail({
     emailAddress,
     confirmationLink,
+    code,
     userExists: Boolean(user),
   })
 }
@@ -70,8 +81,32 @@ async function getSession(request: Request) {
     getSessionId,
     unsetSessionId,
     singIn: async (user: Pick<User, 'id'>) => {
-      const userSession = await createSession({userId: user.id})
+      const userSession = await createSession({
+        userId: user.id,
+        userAgent: request.headers.get('User-Agent'),
+        // Fly tells us which region the request came in through
+        region: request.headers.get('Fly-Region') ?? process.env.FLY_REGION,
+      })
       session.set(sessionIdKey, userSession.id)
+
+      // the reads (and reading progress) from before they signed in are
+      // theirs too. Signing in shouldn't fail because of that though.
+      const client = await getClientSession(request)
+      const claim = {clientId: client.getClientId(), userId: user.id}
+      await Promise.all([
+        claimClientPostReads(claim)
+          // those reads may have earned them something
+          .then(claimed => (claimed ? rebuildAchievements(user.id) : null))
+          .catch((error: unknown) => {
+            console.error(`Failure claiming the client's post reads:`, error)
+          }),
+        claimClientReadingProgress(claim).catch((error: unknown) => {
+          console.error(
+            `Failure claiming the client's reading progress:`,
+            error,
+          )
+        }),
+      ])
     },
     signOut: () => {
       const sessionId = getSessionId()
@@ -117,19 +152,38 @@ async function getUser(request: Request) {
   })
 }
 
-async function getUserSessionFromMagicLink(request: Request) {
-  const email = await validateMagicLink(request.url)
-
-  const user = await getUserByEmail(email)
-  if (!user) return null
+/**
+ * @returns the email address and, if there's an account for it, a session
+ * that's signed in to that account
+ */
+async function getUserSessionFromVerifiedEmail(
+  request: Request,
+  emailAddress: string,
+) {
+  const user = await getUserByEmail(emailAddress)
+  if (!user) return {emailAddress, session: null}
 
   const session = await getSession(request)
   await session.singIn(user)
-  return session
+  return {emailAddress, session}
+}
+
+async function getUserSessionFromMagicLink(request: Request) {
+  const emailAddress = await consumeMagicLink(request.url)
+  return getUserSessionFromVerifiedEmail(request, emailAddress)
+}
+
+async function getUserSessionFromMagicLinkCode(
+  request: Request,
+  {emailAddress, code}: {emailAddress: string; code: string},
+) {
+  await consumeMagicLinkCode({emailAddress, code})
+  return getUserSessionFromVerifiedEmail(request, emailAddress)
 }
 
-async function requireAdminUser(
+async function requirePermission(
   request: Request,
+  permission: Permission,
   callback: (data: User) => Response | Promise<Response>,
 ): Promise<Response> {
   const user = await getUser(request)
@@ -138,7 +192,7 @@ async function requireAdminUser(
     session.signOut()
     return redirect('/login', {headers: await session.getHeaders()})
   }
-  if (user.role !== 'ADMIN') {
+  if (!hasPermission(user, permission)) {
     return redirect('/')
   }
   return callback(user)
@@ -160,8 +214,9 @@ async function requireUser(
 export {
   getSession,
   getUserSessionFromMagicLink,
+  getUserSessionFromMagicLinkCode,
   requireUser,
-  requireAdminUser,
+  requirePermission,
   getUser,
   sendToken,
 }
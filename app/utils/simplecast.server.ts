@@ -27,7 +27,7 @@ const headers = {
 
 const seasonsCacheKey = `simplecast:seasons:${CHATS_WITH_KENT_PODCAST_ID}`
 
-const getCachedSeasons = async (request: Request) =>
+const getCachedSeasons = async (request?: Request) =>
   cachified({
     cache: redisCache,
     key: seasonsCacheKey,
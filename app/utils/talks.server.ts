@@ -4,7 +4,7 @@ import type {CountableSlugify} from '@sindresorhus/slugify'
 import type {Await} from '~/types'
 import {typedBoolean} from '~/utils/misc'
 import {markdownToHtml} from '~/utils/markdown.server'
-import {downloadFile} from '~/utils/github.server'
+import {downloadFile} from '~/utils/content.server'
 import {cachified} from '~/utils/cache.server'
 import {redisCache} from '~/utils/redis.server'
 
@@ -103,13 +103,15 @@ function getTags(talks: Array<RawTalk>): string[] {
   return tags
 }
 
-async function getTalksAndTags({request}: {request: Request}) {
+const talksCacheKey = 'content:data:talks.yml'
+
+async function getTalksAndTags({request}: {request?: Request}) {
   const slugify = await getSlugify()
   slugify.reset()
 
   const talks = await cachified({
     cache: redisCache,
-    key: 'content:data:talks.yml',
+    key: talksCacheKey,
     maxAge: 1000 * 60 * 60 * 24 * 14,
     request,
     getFreshValue: async () => {
@@ -140,4 +142,4 @@ async function getTalksAndTags({request}: {request: Request}) {
   return talks
 }
 
-export {getTalksAndTags}
+export {getTalksAndTags, talksCacheKey}
@@ -0,0 +1,171 @@
+// The team rankings only ever show where things stand right now. At the start
+// of every week we save them (overall and for each post that was read that
+// week) so /teams and /me can show how the teams have moved since. It's also
+// when we know who the top reader on each team was for the week.
+import {startOfWeek, subWeeks} from 'date-fns'
+import type {TeamRanking} from '@prisma/client'
+import type {Request, Team} from '~/types'
+import {prisma, isPrimaryRegion} from './prisma.server'
+import {getFreshBlogReadRankings} from './blog.server'
+import {awardTopReaders} from './achievements.server'
+import {getBlogMdxListItems} from './mdx'
+import {getErrorMessage, teams, typedBoolean} from './misc'
+
+declare global {
+  // This prevents us from starting multiple workers when the require cache is
+  // cleared in development.
+  // eslint-disable-next-line
+  var teamSnapshotWorker: ReturnType<typeof setInterval> | undefined
+}
+
+const checkInterval = 1000 * 60 * 60
+// how many posts that swung the lead to show for a week
+const swingPostLimit = 3
+
+const getWeekOf = (date: Date) => startOfWeek(date, {weekStartsOn: 1})
+
+type TeamTrend = {
+  weekOf: string
+  // the team with the best ranking that week
+  leader: Team | null
+  rankings: Array<
+    Pick<TeamRanking, 'team' | 'totalReads' | 'weeklyReads' | 'ranking'>
+  >
+  // when the lead changed hands, the posts the new leader outread the old one on
+  swingPosts: Array<{slug: string; title: string; margin: number}>
+}
+
+async function takeTeamSnapshot() {
+  const weekOf = getWeekOf(new Date())
+  const existingSnapshot = await prisma.teamSnapshot.findUnique({
+    where: {weekOf},
+    select: {id: true},
+  })
+  if (existingSnapshot) return null
+
+  const reads = await prisma.postRead.findMany({
+    where: {
+      createdAt: {gte: subWeeks(weekOf, 1), lt: weekOf},
+      user: {isNot: null},
+    },
+    select: {postSlug: true, userId: true, user: {select: {team: true}}},
+  })
+  const getWeeklyReads = (team: Team, slug?: string) =>
+    reads.filter(
+      read =>
+        read.user?.team === team && (slug ? read.postSlug === slug : true),
+    ).length
+
+  const rankings: Array<Omit<TeamRanking, 'id' | 'snapshotId'>> = []
+  // the posts nobody read that week can't have moved anything
+  const slugs = [null, ...new Set(reads.map(read => read.postSlug))]
+  for (const slug of slugs) {
+    // one post at a time so we don't swamp the database
+    // eslint-disable-next-line no-await-in-loop
+    const postRankings = await getFreshBlogReadRankings(slug ?? undefined)
+    rankings.push(
+      ...postRankings.map(ranking => ({
+        ...ranking,
+        postSlug: slug,
+        weeklyReads: getWeeklyReads(ranking.team, slug ?? undefined),
+      })),
+    )
+  }
+
+  const snapshot = await prisma.teamSnapshot.create({
+    data: {weekOf, rankings: {create: rankings}},
+  })
+  await awardTopReaders(
+    reads.flatMap(({userId, user}) =>
+      userId && user ? [{userId, team: user.team}] : [],
+    ),
+  )
+  return snapshot
+}
+
+function startTeamSnapshotWorker() {
+  // only the primary region can write to the database
+  if (!isPrimaryRegion || global.teamSnapshotWorker) return
+  global.teamSnapshotWorker = setInterval(() => {
+    takeTeamSnapshot().catch((error: unknown) => {
+      console.error('Error taking the team snapshot', getErrorMessage(error))
+    })
+  }, checkInterval)
+}
+
+function getLeader(rankings: Array<Pick<TeamRanking, 'team' | 'ranking'>>) {
+  const [first, second] = [...rankings].sort((a, b) => b.ranking - a.ranking)
+  if (!first?.ranking || first.ranking === second?.ranking) return null
+  return first.team
+}
+
+/**
+ * @returns how the teams stood each week, oldest first
+ */
+async function getTeamTrends({
+  request,
+  weeks = 12,
+}: {
+  request?: Request
+  weeks?: number
+} = {}): Promise<Array<TeamTrend>> {
+  const [snapshots, posts] = await Promise.all([
+    prisma.teamSnapshot.findMany({
+      orderBy: {weekOf: 'desc'},
+      take: weeks,
+      include: {rankings: true},
+    }),
+    getBlogMdxListItems({request}),
+  ])
+  const postTitles = new Map(
+    posts.map(post => [post.slug, post.frontmatter.title ?? post.slug]),
+  )
+
+  let previousLeader: Team | null = null
+  return snapshots.reverse().map(snapshot => {
+    const rankings = teams.map(team => {
+      const ranking = snapshot.rankings.find(
+        r => r.postSlug === null && r.team === team,
+      )
+      return {
+        team,
+        totalReads: ranking?.totalReads ?? 0,
+        weeklyReads: ranking?.weeklyReads ?? 0,
+        ranking: ranking?.ranking ?? 0,
+      }
+    })
+    const leader = getLeader(rankings)
+
+    const swingPosts: TeamTrend['swingPosts'] = []
+    if (leader && previousLeader && leader !== previousLeader) {
+      const oldLeader = previousLeader
+      const getReads = (slug: string, team: Team) =>
+        snapshot.rankings.find(r => r.postSlug === slug && r.team === team)
+          ?.weeklyReads ?? 0
+      const slugs = new Set(
+        snapshot.rankings.map(r => r.postSlug).filter(typedBoolean),
+      )
+      for (const slug of slugs) {
+        const margin = getReads(slug, leader) - getReads(slug, oldLeader)
+        if (margin > 0) {
+          swingPosts.push({slug, title: postTitles.get(slug) ?? slug, margin})
+        }
+      }
+      swingPosts.sort((a, b) => b.margin - a.margin)
+      swingPosts.splice(swingPostLimit)
+    }
+    if (leader) previousLeader = leader
+
+    return {
+      weekOf: snapshot.weekOf.toISOString(),
+      leader,
+      rankings,
+      swingPosts,
+    }
+  })
+}
+
+startTeamSnapshotWorker()
+
+export {takeTeamSnapshot, getTeamTrends}
+export type {TeamTrend}
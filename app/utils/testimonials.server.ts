@@ -1,7 +1,7 @@
 import type {Request} from 'remix'
 import * as YAML from 'yaml'
 import {pick} from 'lodash'
-import {downloadFile} from './github.server'
+import {downloadFile} from './content.server'
 import {getErrorMessage, typedBoolean} from './misc'
 import {redisCache} from './redis.server'
 import {cachified} from './cache.server'
@@ -144,10 +144,12 @@ function mapTestimonial(rawTestimonial: UnknownObj) {
   }
 }
 
+const testimonialsCacheKey = 'content:data:testimonials.yml'
+
 async function getAllTestimonials({request}: {request: Request}) {
   const allTestimonials = await cachified({
     cache: redisCache,
-    key: 'content:data:testimonials.yml',
+    key: testimonialsCacheKey,
     request,
     maxAge: 1000 * 60 * 60 * 24,
     getFreshValue: async (): Promise<Array<TestimonialWithMetadata>> => {
@@ -223,4 +225,4 @@ async function getTestimonials({
   return finalTestimonials.map(mapOutMetadata)
 }
 
-export {getTestimonials}
+export {getTestimonials, testimonialsCacheKey}
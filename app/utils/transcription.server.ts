@@ -0,0 +1,159 @@
+// Call Kent episodes are transcribed when they're created so the episode page
+// can show what's said (and when). The transcription engine is pluggable:
+// "whisper" runs a whisper-style CLI on the episode audio, "mock" makes up a
+// transcript for development, and "none" skips transcription. Select the
+// engine with TRANSCRIPTION_ENGINE=whisper|mock|none. Whisper needs the CLI
+// installed and takes a lot of CPU, so nothing is transcribed unless you ask.
+import nodePath from 'path'
+import os from 'os'
+import {promises as fs} from 'fs'
+import {execFile} from 'child_process'
+import {promisify} from 'util'
+import type {TranscriptSegment} from '~/types'
+import {prisma} from './prisma.server'
+import {getErrorMessage} from './misc'
+
+type TranscriptionEngine = {
+  name: string
+  transcribe: (audio: {
+    audio: Buffer
+    format: string
+  }) => Promise<Array<TranscriptSegment>>
+}
+
+type WhisperJson = {
+  segments: Array<{start: number; end: number; text: string}>
+}
+
+function createWhisperEngine(): TranscriptionEngine {
+  const command = process.env.WHISPER_COMMAND ?? 'whisper'
+  const model = process.env.WHISPER_MODEL ?? 'base'
+
+  return {
+    name: 'whisper',
+    async transcribe({audio, format}) {
+      const dir = await fs.mkdtemp(nodePath.join(os.tmpdir(), 'transcribe-'))
+      try {
+        const audioPath = nodePath.join(dir, `episode.${format}`)
+        await fs.writeFile(audioPath, audio)
+        await promisify(execFile)(
+          command,
+          [
+            audioPath,
+            ['--model', model],
+            ['--language', 'en'],
+            ['--output_format', 'json'],
+            ['--output_dir', dir],
+            ['--verbose', 'False'],
+          ].flat(),
+          // an hour long episode takes a while on a CPU
+          {timeout: 1000 * 60 * 60, maxBuffer: 1024 * 1024 * 10},
+        )
+        const json = JSON.parse(
+          await fs.readFile(nodePath.join(dir, 'episode.json'), 'utf8'),
+        ) as WhisperJson
+        return json.segments.map(({start, end, text}) => ({
+          start,
+          end,
+          text: text.trim(),
+        }))
+      } finally {
+        await fs.rm(dir, {recursive: true, force: true})
+      }
+    },
+  }
+}
+
+function createMockEngine(): TranscriptionEngine {
+  const lines = [
+    `Hi Kent, I've got a question for you.`,
+    `Thanks for the question, that's a good one.`,
+    `I think the answer depends on what you're trying to do.`,
+    `Hope that's helpful. Talk to you later!`,
+  ]
+  return {
+    name: 'mock',
+    async transcribe() {
+      return lines.map((text, index) => ({
+        start: index * 5,
+        end: (index + 1) * 5,
+        text,
+      }))
+    },
+  }
+}
+
+function getTranscriptionEngine(): TranscriptionEngine | null {
+  const engineName = process.env.TRANSCRIPTION_ENGINE ?? 'none'
+  switch (engineName) {
+    case 'whisper':
+      return createWhisperEngine()
+    case 'mock':
+      return createMockEngine()
+    case 'none':
+      return null
+    default:
+      throw new Error(
+        `TRANSCRIPTION_ENGINE must be "whisper", "mock", or "none" but it's "${engineName}"`,
+      )
+  }
+}
+
+const transcriptionEngine = getTranscriptionEngine()
+
+/**
+ * Transcribes the episode's audio and saves the transcript. This runs in the
+ * background while the episode is published, so it never throws: a missing
+ * transcript just means the episode page doesn't have one.
+ */
+async function createTranscript({
+  transistorEpisodeId,
+  audio,
+  format,
+}: {
+  transistorEpisodeId: string
+  audio: Buffer
+  format: string
+}) {
+  if (!transcriptionEngine) return
+  try {
+    const segments = await transcriptionEngine.transcribe({audio, format})
+    const data = {engine: transcriptionEngine.name, segments}
+    await prisma.callKentTranscript.upsert({
+      where: {transistorEpisodeId},
+      create: {transistorEpisodeId, ...data},
+      update: data,
+    })
+  } catch (error: unknown) {
+    console.error(
+      `Failed to transcribe episode ${transistorEpisodeId} with ${transcriptionEngine.name}:`,
+      getErrorMessage(error),
+    )
+  }
+}
+
+function isTranscriptSegment(value: unknown): value is TranscriptSegment {
+  if (typeof value !== 'object' || value === null) return false
+  const {start, end, text} = value as Record<string, unknown>
+  return (
+    typeof start === 'number' &&
+    typeof end === 'number' &&
+    typeof text === 'string'
+  )
+}
+
+async function getTranscript(
+  transistorEpisodeId: string,
+): Promise<Array<TranscriptSegment> | null> {
+  const transcript = await prisma.callKentTranscript.findUnique({
+    where: {transistorEpisodeId},
+    select: {segments: true},
+  })
+  const segments: unknown = transcript?.segments
+  return Array.isArray(segments) && segments.every(isTranscriptSegment)
+    ? segments
+    : null
+}
+
+export {createTranscript, getTranscript}
+export type {TranscriptionEngine}
@@ -14,6 +14,7 @@ import {getRequiredServerEnvVar} from './misc'
 import {redisCache} from './redis.server'
 import {cachified} from './cache.server'
 import {getEpisodePath} from './call-kent'
+import {createTranscript} from './transcription.server'
 
 const transistorApiSecret = getRequiredServerEnvVar('TRANSISTOR_API_SECRET')
 const podcastId = getRequiredServerEnvVar('CALL_KENT_PODCAST_ID', '67890')
@@ -53,27 +54,27 @@ async function fetchTransitor<JsonResponse>({
   return json as JsonResponse
 }
 
-async function createEpisode({
+async function uploadEpisode({
   audio,
+  audioFormat = 'mp3',
   title,
   summary,
   description,
   keywords,
   imageUrl,
-  domainUrl,
 }: {
   audio: Buffer
+  audioFormat?: string
   title: string
   summary: string
   description: string
   keywords: string
   imageUrl: string
-  domainUrl: string
 }) {
   const id = uuid.v4()
   const authorized = await fetchTransitor<TransistorAuthorizedJson>({
     endpoint: 'v1/episodes/authorize_upload',
-    query: {filename: `${id}.mp3`},
+    query: {filename: `${id}.${audioFormat}`},
   })
   const {upload_url, audio_url, content_type} = authorized.data.attributes
 
@@ -102,9 +103,30 @@ async function createEpisode({
     method: 'POST',
     data: createData,
   })
+  // transcribing takes a while so it happens in the background rather than
+  // holding up publishing the episode
+  void createTranscript({
+    transistorEpisodeId: created.data.id,
+    audio,
+    format: audioFormat,
+  })
+  return created.data.id
+}
 
-  await fetchTransitor<TransistorPublishedJson>({
-    endpoint: `/v1/episodes/${encodeURIComponent(created.data.id)}/publish`,
+/**
+ * Publishes an episode that's been uploaded with uploadEpisode. This is safe
+ * to call more than once for the same episode.
+ * @returns the path to the episode on our site (if we could determine it)
+ */
+async function publishEpisode({
+  episodeId,
+  domainUrl,
+}: {
+  episodeId: string
+  domainUrl: string
+}) {
+  const published = await fetchTransitor<TransistorPublishedJson>({
+    endpoint: `/v1/episodes/${encodeURIComponent(episodeId)}/publish`,
     method: 'PATCH',
     data: {
       episode: {
@@ -114,25 +136,26 @@ async function createEpisode({
   })
 
   // set the alternate_url if we have enough info for it.
-  const {number, season} = created.data.attributes
+  let episodePath: string | null = null
+  const {number, season} = published.data.attributes
   if (typeof number === 'number' && typeof season === 'number') {
     const {default: slugify} = await import('@sindresorhus/slugify')
-    const slug = slugify(created.data.attributes.title)
-    const episodePath = getEpisodePath({
+    const slug = slugify(published.data.attributes.title)
+    episodePath = getEpisodePath({
       episodeNumber: number,
       seasonNumber: season,
       slug,
     })
 
     const updateData: TransistorUpdateEpisodeData = {
-      id: created.data.id,
+      id: episodeId,
       episode: {
         alternate_url: `${domainUrl}${episodePath}`,
       },
     }
 
     await fetchTransitor<TransistorPublishedJson>({
-      endpoint: `/v1/episodes/${encodeURIComponent(created.data.id)}`,
+      endpoint: `/v1/episodes/${encodeURIComponent(episodeId)}`,
       method: 'PATCH',
       data: updateData,
     })
@@ -140,6 +163,7 @@ async function createEpisode({
 
   // update the cache with the new episode
   await getCachedEpisodes({forceFresh: true})
+  return {episodePath}
 }
 
 async function getEpisodes() {
@@ -166,6 +190,7 @@ async function getEpisodes() {
     if (!episode.attributes.duration) continue
 
     episodes.push({
+      id: episode.id,
       seasonNumber: episode.attributes.season,
       episodeNumber: episode.attributes.number,
       slug: slugify(episode.attributes.title),
@@ -205,9 +230,16 @@ async function getCachedEpisodes({
     checkValue: (value: unknown) =>
       Array.isArray(value) &&
       value.every(
-        v => typeof v.slug === 'string' && typeof v.title === 'string',
+        v =>
+          typeof v.id === 'string' &&
+          typeof v.slug === 'string' &&
+          typeof v.title === 'string',
       ),
   })
 }
 
-export {createEpisode, getCachedEpisodes as getEpisodes}
+export {
+  uploadEpisode,
+  publishEpisode,
+  getCachedEpisodes as getEpisodes,
+}
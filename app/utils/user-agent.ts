@@ -0,0 +1,50 @@
+// Just enough user agent sniffing to tell people's sessions apart (and people
+// from bots). Order matters: most browsers claim to be the ones that came
+// before them.
+const browsers: Array<[name: string, pattern: RegExp]> = [
+  ['Edge', /Edg(e|A|iOS)?\//],
+  ['Opera', /OPR\/|Opera/],
+  ['Firefox', /Firefox\/|FxiOS\//],
+  ['Chrome', /Chrome\/|CriOS\//],
+  ['Safari', /Safari\//],
+]
+
+const operatingSystems: Array<[name: string, pattern: RegExp]> = [
+  ['iOS', /iPhone|iPad|iPod/],
+  ['Android', /Android/],
+  ['Chrome OS', /CrOS/],
+  ['macOS', /Mac OS X|Macintosh/],
+  ['Windows', /Windows/],
+  ['Linux', /Linux/],
+]
+
+// crawlers, headless browsers, and HTTP libraries
+const botPattern =
+  /bot|crawl|spider|slurp|facebookexternalhit|headless|lighthouse|puppeteer|playwright|phantomjs|curl|wget|python|axios|node-fetch|go-http-client|java\//i
+
+function findName(
+  userAgent: string,
+  candidates: Array<[name: string, pattern: RegExp]>,
+) {
+  return candidates.find(([, pattern]) => pattern.test(userAgent))?.[0]
+}
+
+/**
+ * @returns something like "Firefox on Windows"
+ */
+function getDeviceDescription(userAgent: string | null) {
+  if (!userAgent) return 'Unknown device'
+  const browser = findName(userAgent, browsers)
+  const os = findName(userAgent, operatingSystems)
+  if (browser && os) return `${browser} on ${os}`
+  return browser ?? os ?? 'Unknown device'
+}
+
+/**
+ * Real browsers always send a user agent, so not having one counts as a bot
+ */
+function isBot(userAgent: string | null) {
+  return !userAgent || botPattern.test(userAgent)
+}
+
+export {getDeviceDescription, isBot}
@@ -4,7 +4,7 @@ import {markdownToHtmlUnwrapped} from './markdown.server'
 import type {Timings} from './metrics.server'
 import {redisCache} from './redis.server'
 import {cachified} from './cache.server'
-import {downloadDirList, downloadFile} from './github.server'
+import {downloadDirList, downloadFile} from './content.server'
 import {typedBoolean} from './misc'
 
 type KeyTakeaway = {
@@ -32,10 +32,12 @@ type RawWorkshop = {
 
 type Options = {request?: Request; timings?: Timings}
 
+const workshopsCacheKey = 'content:workshops'
+
 function getWorkshops({request, timings}: Options) {
   return cachified({
     cache: redisCache,
-    key: 'content:workshops',
+    key: workshopsCacheKey,
     maxAge: 1000 * 60 * 60 * 24 * 7,
     request,
     timings,
@@ -122,4 +124,4 @@ async function getWorkshop(slug: string) {
   }
 }
 
-export {getWorkshops}
+export {getWorkshops, workshopsCacheKey}
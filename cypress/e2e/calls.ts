@@ -48,8 +48,9 @@ describe('call in', () => {
       cy.findByRole('button', {name: /stop/i}).click()
 
       cy.findByRole('button', {name: /accept/i}).click()
+      cy.findByRole('button', {name: /preview/i}).click()
       // processing the audio takes a while, so let the timeout run
-      cy.findByRole('button', {name: /submit/i}).click({timeout: 10000})
+      cy.findByRole('button', {name: /publish/i}).click({timeout: 10000})
     })
   })
 })
@@ -0,0 +1,20 @@
+-- AlterTable
+ALTER TABLE "Call" ADD COLUMN     "audioContentType" TEXT,
+ADD COLUMN     "audioDuration" DOUBLE PRECISION,
+ADD COLUMN     "audioKey" TEXT,
+ADD COLUMN     "audioSize" INTEGER,
+ALTER COLUMN "base64" DROP NOT NULL;
+
+-- Manually written stuff
+-- Existing recordings get their metadata from the data URL in the "base64"
+-- column so the new columns can be required. The audio itself still needs to
+-- be copied to the blob store with `npm run runfile prisma/move-call-recordings.ts`
+-- which clears the "base64" column once the file is stored.
+UPDATE "Call" SET
+  "audioKey" = 'calls/' || "id",
+  "audioContentType" = substring("base64" from '^data:([^;,]+)'),
+  "audioSize" = length(decode(split_part("base64", ',', 2), 'base64'));
+
+ALTER TABLE "Call" ALTER COLUMN "audioKey" SET NOT NULL,
+ALTER COLUMN "audioContentType" SET NOT NULL,
+ALTER COLUMN "audioSize" SET NOT NULL;
@@ -0,0 +1,31 @@
+-- CreateEnum
+CREATE TYPE "PublishCallJobStatus" AS ENUM ('QUEUED', 'RUNNING', 'SUCCEEDED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "PublishCallJob" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "callId" TEXT NOT NULL,
+    "status" "PublishCallJobStatus" NOT NULL DEFAULT E'QUEUED',
+    "progress" TEXT,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "runAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lockedAt" TIMESTAMP(3),
+    "lastError" TEXT,
+    "responseAudioKey" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "keywords" TEXT NOT NULL,
+    "domainUrl" TEXT NOT NULL,
+    "transistorEpisodeId" TEXT,
+    "episodePath" TEXT,
+
+    PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PublishCallJob.callId_index" ON "PublishCallJob"("callId");
+
+-- CreateIndex
+CREATE INDEX "PublishCallJob.status_runAt_index" ON "PublishCallJob"("status", "runAt");
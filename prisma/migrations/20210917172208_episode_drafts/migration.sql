@@ -0,0 +1,12 @@
+-- AlterEnum
+ALTER TYPE "PublishCallJobStatus" ADD VALUE 'DRAFT' BEFORE 'QUEUED';
+
+-- AlterTable
+ALTER TABLE "PublishCallJob" ADD COLUMN     "episodeAudioKey" TEXT,
+ADD COLUMN     "responseAudioContentType" TEXT,
+ADD COLUMN     "responseTrimEnd" DOUBLE PRECISION,
+ADD COLUMN     "responseTrimStart" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- The recorder has always given us audio/mp3 data URLs
+UPDATE "PublishCallJob" SET "responseAudioContentType" = 'audio/mp3';
+ALTER TABLE "PublishCallJob" ALTER COLUMN "responseAudioContentType" SET NOT NULL;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "PublishCallJob" ADD COLUMN     "audioPreset" TEXT NOT NULL DEFAULT E'standard';
@@ -0,0 +1,14 @@
+-- CreateEnum
+CREATE TYPE "CallStatus" AS ENUM ('SUBMITTED', 'IN_REVIEW', 'ANSWERED', 'DECLINED');
+
+-- AlterTable
+ALTER TABLE "Call" ADD COLUMN     "episodePath" TEXT,
+ADD COLUMN     "status" "CallStatus" NOT NULL DEFAULT E'SUBMITTED',
+ADD COLUMN     "statusNote" TEXT;
+
+-- AlterTable
+ALTER TABLE "PublishCallJob" ADD COLUMN     "callerNote" TEXT;
+
+-- Calls used to be deleted once they were answered, so every call that's left
+-- is waiting for an answer or has a response in progress.
+UPDATE "Call" SET "status" = 'IN_REVIEW' WHERE "id" IN (SELECT "callId" FROM "PublishCallJob");
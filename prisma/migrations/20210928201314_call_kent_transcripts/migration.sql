@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "CallKentTranscript" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "transistorEpisodeId" TEXT NOT NULL,
+    "engine" TEXT NOT NULL,
+    "segments" JSONB NOT NULL,
+
+    PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CallKentTranscript.transistorEpisodeId_unique" ON "CallKentTranscript"("transistorEpisodeId");
@@ -0,0 +1,34 @@
+-- CreateTable
+CREATE TABLE "Passkey" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastUsedAt" TIMESTAMP(3),
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "credentialId" TEXT NOT NULL,
+    "publicKey" TEXT NOT NULL,
+    "algorithm" INTEGER NOT NULL,
+    "signCount" INTEGER NOT NULL DEFAULT 0,
+
+    PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PasskeyChallenge" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "challenge" TEXT NOT NULL,
+    "userId" TEXT,
+    "expirationDate" TIMESTAMP(3) NOT NULL,
+
+    PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Passkey.credentialId_unique" ON "Passkey"("credentialId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PasskeyChallenge.challenge_unique" ON "PasskeyChallenge"("challenge");
+
+-- AddForeignKey
+ALTER TABLE "Passkey" ADD FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "MagicLink" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "emailAddress" TEXT NOT NULL,
+    "codeHash" TEXT NOT NULL,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "expirationDate" TIMESTAMP(3) NOT NULL,
+    "usedAt" TIMESTAMP(3),
+
+    PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "MagicLink.emailAddress_index" ON "MagicLink"("emailAddress");
@@ -0,0 +1,3 @@
+-- AlterEnum
+ALTER TYPE "Role" ADD VALUE 'MODERATOR' BEFORE 'MEMBER';
+ALTER TYPE "Role" ADD VALUE 'EDITOR' BEFORE 'MEMBER';
@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "ReadingProgress" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "userId" TEXT,
+    "clientId" TEXT,
+    "postSlug" TEXT NOT NULL,
+    "percent" INTEGER NOT NULL,
+    "lastHeadingId" TEXT,
+
+    PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReadingProgress.userId_postSlug_unique" ON "ReadingProgress"("userId", "postSlug");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReadingProgress.clientId_postSlug_unique" ON "ReadingProgress"("clientId", "postSlug");
+
+-- AddForeignKey
+ALTER TABLE "ReadingProgress" ADD FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
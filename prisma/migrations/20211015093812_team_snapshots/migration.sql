@@ -0,0 +1,31 @@
+-- CreateTable
+CREATE TABLE "TeamSnapshot" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "weekOf" TIMESTAMP(3) NOT NULL,
+
+    PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TeamRanking" (
+    "id" TEXT NOT NULL,
+    "snapshotId" TEXT NOT NULL,
+    "team" "Team" NOT NULL,
+    "postSlug" TEXT,
+    "totalReads" INTEGER NOT NULL,
+    "weeklyReads" INTEGER NOT NULL,
+    "ranking" DOUBLE PRECISION NOT NULL,
+    "percent" DOUBLE PRECISION NOT NULL,
+
+    PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TeamSnapshot.weekOf_unique" ON "TeamSnapshot"("weekOf");
+
+-- CreateIndex
+CREATE INDEX "TeamRanking.snapshotId_index" ON "TeamRanking"("snapshotId");
+
+-- AddForeignKey
+ALTER TABLE "TeamRanking" ADD FOREIGN KEY ("snapshotId") REFERENCES "TeamSnapshot"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,19 @@
+-- CreateEnum
+CREATE TYPE "PostReadRejection" AS ENUM ('UNKNOWN_POST', 'BOT', 'TOO_FAST', 'RATE_LIMITED');
+
+-- CreateTable
+CREATE TABLE "RejectedPostRead" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "userId" TEXT,
+    "clientId" TEXT,
+    "postSlug" TEXT NOT NULL,
+    "reason" "PostReadRejection" NOT NULL,
+    "userAgent" TEXT,
+    "ip" TEXT,
+
+    PRIMARY KEY ("id")
+);
+
+-- AddForeignKey
+ALTER TABLE "RejectedPostRead" ADD FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
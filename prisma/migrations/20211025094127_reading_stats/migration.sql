@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "ReadingStats" (
+    "id" TEXT NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "userId" TEXT NOT NULL,
+    "lastReadAt" TIMESTAMP(3) NOT NULL,
+    "postCount" INTEGER NOT NULL,
+    "dayStreak" INTEGER NOT NULL,
+    "weekStreak" INTEGER NOT NULL,
+    "longestDayStreak" INTEGER NOT NULL,
+    "longestWeekStreak" INTEGER NOT NULL,
+
+    PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReadingStats.userId_unique" ON "ReadingStats"("userId");
+
+-- AddForeignKey
+ALTER TABLE "ReadingStats" ADD FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,44 @@
+// Moves recordings that were stored as data URLs in the Call.base64 column
+// into the blob store. The call_recording_files migration already set the
+// audioKey/audioContentType/audioSize for these calls, so all that's left is
+// to copy the audio and clear the column. Safe to run more than once.
+//
+// npm run runfile prisma/move-call-recordings.ts
+import {PrismaClient} from '@prisma/client'
+import {blobStore} from '../app/utils/blob-store.server'
+
+const prisma = new PrismaClient()
+
+async function main() {
+  const calls = await prisma.call.findMany({
+    where: {base64: {not: null}},
+    select: {id: true, audioKey: true, audioContentType: true},
+  })
+  console.log(`Moving ${calls.length} recordings to the blob store`)
+
+  for (const {id, audioKey, audioContentType} of calls) {
+    // one at a time so we only have a single recording in memory at once
+    // eslint-disable-next-line no-await-in-loop
+    const call = await prisma.call.findUnique({
+      where: {id},
+      select: {base64: true},
+    })
+    const data = call?.base64?.split(',')[1]
+    if (!data) continue
+
+    // eslint-disable-next-line no-await-in-loop
+    await blobStore.put(audioKey, Buffer.from(data, 'base64'), audioContentType)
+    // eslint-disable-next-line no-await-in-loop
+    await prisma.call.update({where: {id}, data: {base64: null}})
+    console.log(`Moved the recording for ${id} to ${audioKey}`)
+  }
+}
+
+main()
+  .catch(e => {
+    console.error(e)
+    process.exit(1)
+  })
+  .finally(async () => {
+    await prisma.$disconnect()
+  })
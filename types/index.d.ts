@@ -1,6 +1,6 @@
 import calculateReadingTime from 'reading-time'
 import type {ActionFunction, LoaderFunction, Request, Response} from 'remix'
-import type {User, Call, Session, Team, Role} from '@prisma/client'
+import type {User, Call, CallStatus, Session, Team, Role} from '@prisma/client'
 
 type NonNullProperties<Type> = {
   [Key in keyof Type]-?: Exclude<Type[Key], null | undefined>
@@ -119,7 +119,16 @@ type CWKSeason = {
   episodes: Array<CWKListItem>
 }
 
+// a line of a transcript and when it's said (in seconds)
+type TranscriptSegment = {
+  start: number
+  end: number
+  text: string
+}
+
 type CallKentEpisode = {
+  // the id of the episode in Transistor
+  id: string
   episodeNumber: number
   seasonNumber: number
   slug: string
@@ -185,6 +194,7 @@ export {
   Await,
   User,
   Call,
+  CallStatus,
   Session,
   Team,
   Role,
@@ -195,6 +205,7 @@ export {
   CWKListItem,
   CWKSeason,
   CallKentEpisode,
+  TranscriptSegment,
   KCDLoader,
   KCDAction,
   KCDHandle,
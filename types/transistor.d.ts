@@ -37,7 +37,7 @@ type TransistorCreatedJson = {
 }
 
 type TransistorPublishedJson = {
-  data: {}
+  data: TransistorEpisodeData
 }
 
 type TransistorCreateEpisodeData = {